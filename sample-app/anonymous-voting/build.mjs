@@ -13,8 +13,8 @@ await esbuild.build({
     "process.env.NODE_ENV": '"production"',
     "global": "globalThis",
   },
-  // Mark heavy Node.js-only things external (they're not needed in browser)
-  external: ["child_process", "fs", "os", "path", "crypto"],
+  // The SDK stubs its Node-only imports through its package.json "browser" field
+  logOverride: { "empty-import-meta": "silent", "import-is-undefined": "silent" },
   // Allow large bundle (snarkjs + circuit deps are big)
   logLevel: "info",
 });
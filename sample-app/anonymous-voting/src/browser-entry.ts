@@ -4,7 +4,20 @@
  */
 import { Identity } from "@semaphore-protocol/identity";
 import { Group } from "@semaphore-protocol/group";
-import { generateProof, verifyProof } from "@semaphore-protocol/proof";
+import { verifyProof } from "@semaphore-protocol/proof";
+import {
+  generateSemaphoreProof as proveWithSdk,
+  resolveTreeDepth,
+  artifactFileName,
+  ArtifactFetchError,
+  ArtifactIntegrityError,
+  DEFAULT_ARTIFACTS_SOURCE,
+  SNARK_ARTIFACTS_VERSION,
+  type ArtifactManifest,
+  type ProgressOptions,
+  type SemaphoreFullProof,
+} from "semaphore-starknet-sdk";
+import bundledManifest from "semaphore-starknet-sdk/artifacts/circuit-manifest.json";
 
 /** Create a random identity, or restore from a secret key string */
 export function createIdentity(secretKey?: string): Identity {
@@ -29,17 +42,109 @@ export function getRoot(group: Group): string {
   return group.root.toString();
 }
 
+export type { ProofProgress } from "semaphore-starknet-sdk";
+
+export interface ProofOptions extends ProgressOptions {
+  /** Circuit tree depth; must match the deployment's verifier. Default: the SDK's DEFAULT_TREE_DEPTH */
+  treeDepth?: number;
+}
+
 /**
- * Generate a depth-20 Groth16 proof.
- * First call downloads circuit WASM + zkey (~50MB) from CDN.
+ * Where to load circuit artifacts from, and their pinned SHA-256 hashes
+ * (same shape as the SDK's artifacts/circuit-manifest.json entries).
+ */
+export interface ArtifactConfig {
+  /** Base URL holding semaphore-<depth>.wasm and semaphore-<depth>.zkey */
+  baseUrl: string;
+  /** File name → lowercase hex SHA-256. Default: the SDK's bundled manifest */
+  sha256?: Record<string, string>;
+}
+
+const ARTIFACT_CACHE_NAME = `semaphore-artifacts-${SNARK_ARTIFACTS_VERSION}`;
+let artifactConfig: Required<ArtifactConfig> = {
+  baseUrl: DEFAULT_ARTIFACTS_SOURCE,
+  sha256: (bundledManifest as ArtifactManifest).artifacts,
+};
+
+/**
+ * Load circuit artifacts from `baseUrl` instead of the public CDN. Files are
+ * always verified against pinned hashes (by default the SDK's manifest) and
+ * kept in Cache Storage.
+ */
+export function configureArtifacts(config: ArtifactConfig): void {
+  artifactConfig = { baseUrl: config.baseUrl, sha256: config.sha256 ?? (bundledManifest as ArtifactManifest).artifacts };
+}
+
+/**
+ * Generate a Groth16 proof with the SDK's prover.
+ * First call downloads the circuit WASM + zkey for the tree depth (~50MB at
+ * depth 20) from the configured artifact source, else the CDN, and checks
+ * each file against its pinned SHA-256.
  */
 export async function generateSemaphoreProof(
   identity: Identity,
   group: Group,
   message: bigint,
-  scope: bigint
-): Promise<any> {
-  return await generateProof(identity, group, message, scope, 20);
+  scope: bigint,
+  options: ProofOptions = {}
+): Promise<SemaphoreFullProof> {
+  options.signal?.throwIfAborted();
+  const treeDepth = resolveTreeDepth(group, options.treeDepth);
+  const [wasm, zkey] = await Promise.all([
+    loadArtifact(artifactFileName(treeDepth, "wasm"), options),
+    loadArtifact(artifactFileName(treeDepth, "zkey"), options),
+  ]);
+  return proveWithSdk(identity, group, message, scope, { ...options, treeDepth, artifacts: { wasm, zkey } });
+}
+
+async function loadArtifact(file: string, options: ProofOptions): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  // An unpinned file is rejected once downloaded, with its hash reported for pinning
+  const expected = artifactConfig.sha256[file]?.toLowerCase() ?? null;
+
+  const url = `${artifactConfig.baseUrl.replace(/\/$/, "")}/${file}`;
+  const cache = "caches" in globalThis ? await caches.open(ARTIFACT_CACHE_NAME) : null;
+
+  const cached = await cache?.match(url);
+  if (cached) {
+    const buffer = await cached.arrayBuffer();
+    if ((await sha256Hex(buffer)) === expected) return new Uint8Array(buffer);
+    await cache!.delete(url);
+  }
+
+  const response = await fetch(url, { signal });
+  if (!response.ok || !response.body) {
+    throw new ArtifactFetchError(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  const length = Number(response.headers.get("content-length"));
+  const total = length > 0 ? length : null;
+
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.({ phase: "download", file, loaded, total });
+  }
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const actual = await sha256Hex(bytes.buffer);
+  if (actual !== expected) throw new ArtifactIntegrityError(file, expected, actual);
+  await cache?.put(url, new Response(bytes.buffer));
+  return bytes;
+}
+
+async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 /** Verify a proof off-chain (fast, no network needed) */
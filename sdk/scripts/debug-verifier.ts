@@ -1,8 +1,8 @@
 /**
- * Debug script to test Garaga verifier directly and capture raw RPC errors.
+ * Debug script to test Garaga verifier directly and capture its raw errors.
  */
 
-import { RpcProvider, Account, Contract, json, CallData, Signer } from "starknet";
+import { RpcProvider, Account, json, Signer } from "starknet";
 import { readFileSync, writeFileSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -10,7 +10,10 @@ import { Identity } from "@semaphore-protocol/identity";
 import { Group } from "@semaphore-protocol/group";
 import { generateProof } from "@semaphore-protocol/proof";
 import { encodeForStarknet } from "../src/calldata.js";
+import { EncodingError } from "../src/errors.js";
 import { extractVerificationKey } from "../src/proof.js";
+import { decodeCalldata, compareCalldataToProof } from "../src/decoder.js";
+import { dryRunVerifier } from "../src/verifier.js";
 import type { SemaphoreFullProof } from "../src/types.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -72,63 +75,56 @@ async function main() {
   // Encode calldata
   console.log("\nEncoding via Garaga...");
   const vk = extractVerificationKey(proof.merkleTreeDepth);
-  const calldata = await encodeForStarknet(proof as unknown as SemaphoreFullProof, vk);
-  console.log("Calldata length:", calldata.length);
-
-  if (calldata[0] === "ENCODING_PENDING") {
+  let calldata: string[];
+  try {
+    calldata = await encodeForStarknet(proof as unknown as SemaphoreFullProof, vk);
+  } catch (err) {
+    if (!(err instanceof EncodingError)) throw err;
     console.log("Garaga encoding unavailable, cannot test");
+    console.log(err.message);
     return;
   }
+  console.log("Calldata length:", calldata.length);
 
   // Save calldata for inspection
   writeFileSync("/tmp/garaga-debug-calldata.json", JSON.stringify(calldata, null, 2));
   console.log("Calldata saved to /tmp/garaga-debug-calldata.json");
-  console.log("First 5 elements:", calldata.slice(0, 5));
-
-  // Call verifier directly via raw RPC
-  console.log("\nCalling verifier directly via raw RPC...");
-  const calldataCompiled = CallData.compile({ full_proof_with_hints: calldata });
-  console.log("Compiled calldata length:", calldataCompiled.length);
-  console.log("First 10 elements:", calldataCompiled.slice(0, 10));
-
-  // Convert calldata to hex strings for raw RPC
-  const calldataHex = calldataCompiled.map(v => "0x" + BigInt(v).toString(16));
-
-  const rpcPayload = {
-    jsonrpc: "2.0",
-    method: "starknet_call",
-    params: {
-      request: {
-        contract_address: verifierAddress,
-        entry_point_selector: "0x22de6dd3878da34d58a3bfde31eb6fbb3ea9715cb9a5ce6f665d5e5a5564d7a", // verify_groth16_proof_bn254
-        calldata: calldataHex,
-      },
-      block_id: "latest",
-    },
-    id: 1,
-  };
-
-  const rpcResp = await fetch(DEVNET_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(rpcPayload),
+
+  // Decode the calldata and check it against the off-chain proof
+  const decoded = decodeCalldata(calldata);
+  for (const section of decoded.sections) {
+    console.log(`  ${section.name.padEnd(34)} offset ${String(section.offset).padStart(4)}  len ${section.length}`);
+  }
+  const mismatches = compareCalldataToProof(decoded, proof as unknown as SemaphoreFullProof);
+  if (mismatches.length > 0) {
+    console.log("Calldata does NOT match the proof:");
+    for (const m of mismatches) console.log(`  ${m.field}: expected ${m.expected}, got ${m.actual}`);
+  } else {
+    console.log("Calldata matches proof points and public inputs");
+  }
+
+  // Dry-run the verifier directly and compare what it returns with the proof
+  console.log("\nCalling verifier directly...");
+  const run = await dryRunVerifier(provider, calldata, {
+    verifierAddress,
+    proof: proof as unknown as SemaphoreFullProof,
   });
 
-  const rpcResult = await rpcResp.json();
-  console.log("\nRaw RPC response:");
-  console.log(JSON.stringify(rpcResult, null, 2).substring(0, 5000));
-
-  if ((rpcResult as any).error) {
-    console.log("\n=== ERROR DETAILS ===");
-    const error = (rpcResult as any).error;
-    console.log("Code:", error.code);
-    console.log("Message:", error.message);
-    if (error.data) {
-      console.log("Data:", JSON.stringify(error.data).substring(0, 3000));
+  if (!run.verified) {
+    console.log("\n=== REJECTED ===");
+    console.log(run.error.panicked ? "Verifier panicked:" : "Verifier returned Err:", run.error.reason);
+    if (run.error.cause) {
+      console.log("Raw error:", String((run.error.cause as Error).message ?? run.error.cause).substring(0, 3000));
     }
   } else {
-    console.log("\n=== SUCCESS ===");
-    console.log("Result:", JSON.stringify((rpcResult as any).result));
+    console.log("\n=== VERIFIED ===");
+    console.log("Public inputs:", run.publicInputs);
+    if (run.mismatches.length > 0) {
+      console.log("Verified inputs do NOT match the proof:");
+      for (const m of run.mismatches) console.log(`  ${m.field}: expected ${m.expected}, got ${m.actual}`);
+    } else {
+      console.log("Verified inputs match the proof");
+    }
   }
 }
 
@@ -22,9 +22,11 @@ import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import { Identity } from "@semaphore-protocol/identity";
 import { Group } from "@semaphore-protocol/group";
-import { generateProof } from "@semaphore-protocol/proof";
 import { encodeForStarknet } from "../src/calldata.js";
-import { extractVerificationKey } from "../src/proof.js";
+import { EncodingError, InvalidProofError, NullifierAlreadyUsedError } from "../src/errors.js";
+import { extractVerificationKey, generateSemaphoreProof } from "../src/proof.js";
+import { DEFAULT_TREE_DEPTH } from "../src/group.js";
+import { SemaphoreClient } from "../src/client.js";
 import type { SemaphoreFullProof } from "../src/types.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -179,16 +181,14 @@ async function main() {
 
   // ── 5. Create group ───────────────────────────────────────────────
   console.log("\n5. Creating group...");
-  const semaphore = new Contract({
-    abi: semaphoreSierra.abi,
+  const semaphore = new SemaphoreClient({
     address: semaphoreAddress,
     providerOrAccount: account,
   });
 
-  const createGroupTx = await semaphore.invoke("create_group", [GROUP_ID]);
-  await provider.waitForTransaction(createGroupTx.transaction_hash);
-  const exists = await semaphore.call("group_exists", [GROUP_ID]);
-  assert(!!exists, "Group created on-chain");
+  await semaphore.createGroup(GROUP_ID);
+  const exists = await semaphore.groupExists(GROUP_ID);
+  assert(exists, "Group created on-chain");
 
   // ── 6. Create identity + off-chain group ──────────────────────────
   console.log("\n6. Creating identity and off-chain group...");
@@ -203,24 +203,21 @@ async function main() {
 
   // ── 7. Add member on-chain ────────────────────────────────────────
   console.log("\n7. Adding member on-chain...");
-  const addMemberTx = await semaphore.invoke("add_member", [
-    GROUP_ID, commitment, merkleRoot,
-  ]);
-  await provider.waitForTransaction(addMemberTx.transaction_hash);
+  await semaphore.addMember(GROUP_ID, commitment, BigInt(merkleRoot));
 
-  const onChainRoot = await semaphore.call("get_merkle_root", [GROUP_ID]);
+  const onChainRoot = await semaphore.getMerkleRoot(GROUP_ID);
   console.log(`  On-chain root: ${onChainRoot}`);
-  assert(BigInt(onChainRoot as any) === BigInt(merkleRoot), "On-chain root matches off-chain");
+  assert(onChainRoot === BigInt(merkleRoot), "On-chain root matches off-chain");
 
-  const memberCount = await semaphore.call("get_group_member_count", [GROUP_ID]);
-  assert(BigInt(memberCount as any) === 1n, "Member count is 1");
+  const memberCount = await semaphore.getGroupMemberCount(GROUP_ID);
+  assert(memberCount === 1n, "Member count is 1");
 
   // ── 8. Generate proof ─────────────────────────────────────────────
   console.log("\n8. Generating Groth16 proof (depth-20 circuit)...");
   const startTime = Date.now();
   // Use depth-20 explicitly: pads Merkle siblings with zeros for shallow trees.
   // The on-chain verifier uses the depth-20 VK, which is production-sized.
-  const proof = await generateProof(identity, group, MESSAGE, SCOPE, 20);
+  const proof = await generateSemaphoreProof(identity, group, MESSAGE, SCOPE, { treeDepth: DEFAULT_TREE_DEPTH });
   const elapsed = Date.now() - startTime;
   console.log(`  Proof generated in ${elapsed}ms (merkleTreeDepth=${proof.merkleTreeDepth})`);
   assert(proof.points.length === 8, "Proof has 8 curve points");
@@ -229,12 +226,18 @@ async function main() {
   // ── 9. Encode via Garaga ──────────────────────────────────────────
   console.log("\n9. Encoding proof via Garaga...");
   const vk = extractVerificationKey(proof.merkleTreeDepth);
-  const calldata = await encodeForStarknet(
-    proof as unknown as SemaphoreFullProof,
-    vk
-  );
+  let calldata: string[] | null = null;
+  try {
+    calldata = await encodeForStarknet(
+      proof as unknown as SemaphoreFullProof,
+      vk
+    );
+  } catch (err) {
+    if (!(err instanceof EncodingError)) throw err;
+    console.log(`  ${err.message.replace(/\n/g, "\n  ")}`);
+  }
 
-  if (calldata[0] === "ENCODING_PENDING") {
+  if (!calldata) {
     console.log("  [SKIP] Garaga encoding unavailable — skipping on-chain signal steps");
     console.log("  Steps 10-12 require Garaga Python CLI to encode the proof.");
     console.log("  The off-chain flow (steps 1-8) completed successfully.\n");
@@ -245,18 +248,14 @@ async function main() {
     console.log("\n10. Sending signal on-chain...");
     const calldataFelts = calldata.map((v) => v.toString());
 
-    // First try a simulation call to get the raw error
-    console.log("  Simulating call to get detailed error...");
-    try {
-      const simResult = await provider.callContract({
-        contractAddress: semaphoreAddress,
-        entrypoint: "send_signal",
-        calldata: CallData.compile({ group_id: GROUP_ID, full_proof_with_hints: calldataFelts }),
-      });
-      console.log(`  Simulation succeeded! Result: ${JSON.stringify(simResult).substring(0, 200)}`);
-    } catch (simErr: any) {
-      const simMsg = simErr?.message || String(simErr);
-      console.log(`  [DEBUG] Simulation error (full): ${simMsg.substring(0, 3000)}`);
+    // Preflight: simulate the exact invoke to catch a revert before paying for it
+    console.log("  Preflighting send_signal...");
+    const preflight = await semaphore.preflightSendSignal(GROUP_ID, calldataFelts);
+    if (preflight.ok) {
+      console.log(`  Preflight passed: fee ${preflight.fee?.overallFee} ${preflight.fee?.unit}, l2 gas ${preflight.resources?.l2Gas}`);
+      console.log(`  Verifier public inputs: nullifier ${preflight.publicInputs?.nullifier}`);
+    } else {
+      console.log(`  [DEBUG] Preflight revert: ${preflight.error?.message.substring(0, 3000)}`);
 
       // Also try calling verifier directly to isolate the issue
       console.log("  Trying direct verifier call...");
@@ -278,45 +277,33 @@ async function main() {
     }
 
     try {
-      const sendSignalTx = await semaphore.invoke("send_signal", [
-        GROUP_ID, calldataFelts,
-      ]);
-      const receipt = await provider.waitForTransaction(
-        sendSignalTx.transaction_hash
-      );
+      const sendSignalTx = await semaphore.sendSignal(GROUP_ID, calldataFelts);
       assert(
-        receipt.statusReceipt !== "REJECTED",
+        sendSignalTx.receipt.statusReceipt !== "REJECTED",
         "Signal transaction accepted"
       );
-      console.log(`  Tx hash: ${sendSignalTx.transaction_hash}`);
+      console.log(`  Tx hash: ${sendSignalTx.transactionHash}`);
 
       // ── 11. Verify nullifier used ─────────────────────────────────
       console.log("\n11. Checking nullifier usage...");
       const nullifier = BigInt(proof.nullifier);
-      const isUsed = await semaphore.call("is_nullifier_used", [nullifier]);
-      assert(!!isUsed, "Nullifier is marked as used");
+      const isUsed = await semaphore.isNullifierUsed(nullifier);
+      assert(isUsed, "Nullifier is marked as used");
 
       // ── 12. Double-signal rejection ───────────────────────────────
       console.log("\n12. Testing double-signal rejection...");
+      const again = await semaphore.preflightSendSignal(GROUP_ID, calldataFelts);
+      assert(!again.ok && again.error instanceof NullifierAlreadyUsedError, "Preflight predicts the double signal's revert");
       try {
-        const doubleTx = await semaphore.invoke("send_signal", [
-          GROUP_ID, calldataFelts,
-        ]);
-        await provider.waitForTransaction(doubleTx.transaction_hash);
+        await semaphore.sendSignal(GROUP_ID, calldataFelts);
         assert(false, "Double signal should have been rejected");
-      } catch (err: any) {
-        const errMsg = err?.message || String(err);
-        assert(
-          errMsg.includes("Nullifier already used") ||
-            errMsg.includes("REVERTED") ||
-            errMsg.includes("reverted"),
-          "Double signal correctly rejected"
-        );
+      } catch (err) {
+        assert(err instanceof NullifierAlreadyUsedError, "Double signal correctly rejected");
       }
     } catch (err: any) {
       const errMsg = err?.message || String(err);
       console.log(`  [DEBUG] Invoke error: ${errMsg.substring(0, 2000)}`);
-      if (errMsg.includes("unwrap failed") || errMsg.includes("execution error") || errMsg.includes("REVERTED") || errMsg.includes("Transaction reverted")) {
+      if (err instanceof InvalidProofError || errMsg.includes("unwrap failed") || errMsg.includes("execution error") || errMsg.includes("REVERTED") || errMsg.includes("Transaction reverted")) {
         console.log("  [SKIP] On-chain Garaga verifier rejected the proof");
         console.log("  Steps 1-9 (deploy, group, member, proof, encoding) all passed.\n");
       } else {
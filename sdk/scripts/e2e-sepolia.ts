@@ -11,21 +11,21 @@
  * Usage: npx tsx scripts/e2e-sepolia.ts
  */
 
-import { RpcProvider, Account, Contract, json, CallData, Signer } from "starknet";
+import { RpcProvider, Account, Signer } from "starknet";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import { Identity } from "@semaphore-protocol/identity";
 import { Group } from "@semaphore-protocol/group";
-import { generateProof } from "@semaphore-protocol/proof";
 import { encodeForStarknet } from "../src/calldata.js";
-import { extractVerificationKey } from "../src/proof.js";
+import { extractVerificationKey, generateSemaphoreProof } from "../src/proof.js";
+import { DEFAULT_TREE_DEPTH } from "../src/group.js";
+import { SemaphoreClient } from "../src/client.js";
+import { NullifierAlreadyUsedError } from "../src/errors.js";
 import type { SemaphoreFullProof } from "../src/types.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = join(__dirname, "..");
-const CONTRACTS_DIR = join(PROJECT_ROOT, "..", "contracts");
-const VERIFIER_DIR = join(PROJECT_ROOT, "..", "semaphore_verifier");
 const ADDRESSES_FILE = join(PROJECT_ROOT, "..", "scripts", "deployed-addresses.json");
 
 const MESSAGE = 42n;
@@ -46,11 +46,6 @@ function assert(condition: boolean, msg: string) {
   }
 }
 
-function readContractArtifact(dir: string, filename: string): any {
-  const path = join(dir, "target", "dev", filename);
-  return json.parse(readFileSync(path, "utf-8"));
-}
-
 async function main() {
   console.log("=== Semaphore Sepolia Smoke Test ===\n");
 
@@ -87,12 +82,7 @@ async function main() {
 
   // ── 4. Connect to deployed Semaphore contract ─────────────────────
   console.log("\n4. Connecting to deployed Semaphore contract...");
-  const semaphoreSierra = readContractArtifact(
-    CONTRACTS_DIR,
-    "semaphore_Semaphore.contract_class.json"
-  );
-  const semaphore = new Contract({
-    abi: semaphoreSierra.abi,
+  const semaphore = new SemaphoreClient({
     address: semaphoreInfo.address,
     providerOrAccount: account,
   });
@@ -100,10 +90,9 @@ async function main() {
 
   // ── 5. Create group ───────────────────────────────────────────────
   console.log(`\n5. Creating group (id=${GROUP_ID})...`);
-  const createGroupTx = await semaphore.invoke("create_group", [GROUP_ID]);
-  await provider.waitForTransaction(createGroupTx.transaction_hash);
-  const exists = await semaphore.call("group_exists", [GROUP_ID]);
-  assert(!!exists, "Group created on Sepolia");
+  await semaphore.createGroup(GROUP_ID);
+  const exists = await semaphore.groupExists(GROUP_ID);
+  assert(exists, "Group created on Sepolia");
 
   // ── 6. Create identity + off-chain group ──────────────────────────
   console.log("\n6. Creating identity and off-chain group...");
@@ -116,59 +105,48 @@ async function main() {
 
   // ── 7. Add member on-chain ────────────────────────────────────────
   console.log("\n7. Adding member on-chain...");
-  const addMemberTx = await semaphore.invoke("add_member", [
-    GROUP_ID, commitment, merkleRoot,
-  ]);
-  await provider.waitForTransaction(addMemberTx.transaction_hash);
-  const onChainRoot = await semaphore.call("get_merkle_root", [GROUP_ID]);
-  assert(BigInt(onChainRoot as any) === BigInt(merkleRoot), "On-chain root matches off-chain");
+  await semaphore.addMember(GROUP_ID, commitment, BigInt(merkleRoot));
+  const onChainRoot = await semaphore.getMerkleRoot(GROUP_ID);
+  assert(onChainRoot === BigInt(merkleRoot), "On-chain root matches off-chain");
 
   // ── 8. Generate depth-20 proof ────────────────────────────────────
   console.log("\n8. Generating Groth16 proof (depth-20)...");
   const startTime = Date.now();
-  const proof = await generateProof(identity, group, MESSAGE, SCOPE, 20);
+  const proof = await generateSemaphoreProof(identity, group, MESSAGE, SCOPE, { treeDepth: DEFAULT_TREE_DEPTH });
   console.log(`  Proof generated in ${Date.now() - startTime}ms`);
   assert(proof.merkleTreeDepth === 20, "Proof uses depth-20 circuit");
 
   // ── 9. Encode via Garaga ──────────────────────────────────────────
   console.log("\n9. Encoding proof via Garaga...");
-  const vk = extractVerificationKey(20);
+  const vk = extractVerificationKey(proof.merkleTreeDepth);
   const calldata = await encodeForStarknet(
     proof as unknown as SemaphoreFullProof,
     vk
   );
-  assert(calldata.length > 100 && calldata[0] !== "ENCODING_PENDING",
+  assert(calldata.length > 100,
     `Calldata encoded: ${calldata.length} felts`);
 
   // ── 10. Send signal on Sepolia ────────────────────────────────────
   console.log("\n10. Sending signal on Sepolia...");
   const calldataFelts = calldata.map((v) => v.toString());
-  const sendSignalTx = await semaphore.invoke("send_signal", [
-    GROUP_ID, calldataFelts,
-  ]);
-  const receipt = await provider.waitForTransaction(sendSignalTx.transaction_hash);
+  const sendSignalTx = await semaphore.sendSignal(GROUP_ID, calldataFelts);
   assert(
-    receipt.statusReceipt !== "REJECTED",
-    `Signal accepted on Sepolia (tx: ${sendSignalTx.transaction_hash.slice(0, 18)}...)`
+    sendSignalTx.receipt.statusReceipt !== "REJECTED",
+    `Signal accepted on Sepolia (tx: ${sendSignalTx.transactionHash.slice(0, 18)}...)`
   );
 
   // ── 11. Nullifier used ────────────────────────────────────────────
   console.log("\n11. Checking nullifier...");
-  const isUsed = await semaphore.call("is_nullifier_used", [BigInt(proof.nullifier)]);
-  assert(!!isUsed, "Nullifier marked as used on Sepolia");
+  const isUsed = await semaphore.isNullifierUsed(BigInt(proof.nullifier));
+  assert(isUsed, "Nullifier marked as used on Sepolia");
 
   // ── 12. Double-signal rejected ────────────────────────────────────
   console.log("\n12. Double-signal rejection...");
   try {
-    const doubleTx = await semaphore.invoke("send_signal", [GROUP_ID, calldataFelts]);
-    await provider.waitForTransaction(doubleTx.transaction_hash);
+    await semaphore.sendSignal(GROUP_ID, calldataFelts);
     assert(false, "Double signal should have been rejected");
-  } catch (err: any) {
-    const msg = err?.message || String(err);
-    assert(
-      msg.includes("Nullifier already used") || msg.includes("REVERTED") || msg.includes("reverted"),
-      "Double signal correctly rejected"
-    );
+  } catch (err) {
+    assert(err instanceof NullifierAlreadyUsedError, "Double signal correctly rejected");
   }
 
   // ── Summary ───────────────────────────────────────────────────────
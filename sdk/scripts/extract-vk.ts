@@ -1,28 +1,47 @@
 /**
- * Extract the Semaphore verification key for depth 20 and save to artifacts.
+ * Extract the Semaphore verification keys for every tree depth and save them
+ * to artifacts/ — the registry bundled with the SDK (see src/vk.ts).
  *
- * Usage: npx tsx scripts/extract-vk.ts
+ * The VK JSON in @semaphore-protocol/proof has shared fields (vk_alpha_1,
+ * vk_beta_2, vk_gamma_2) and depth-indexed arrays (vk_delta_2[depth-1],
+ * IC[depth-1]). Each artifact is the complete snarkjs-format VK for one depth.
+ *
+ * Usage: npx tsx scripts/extract-vk.ts [depth ...]   (default: 1..32)
  */
-import { extractVerificationKey } from "../src/proof.js";
-import { writeFileSync, mkdirSync } from "fs";
+import { validateVerificationKey, MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "../src/vk.js";
+import { readFileSync, writeFileSync, mkdirSync } from "fs";
 import { dirname, join } from "path";
 import { fileURLToPath } from "url";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const DEPTH = 20;
-
-console.log(`Extracting verification key for tree depth ${DEPTH}...`);
-
-const vk = extractVerificationKey(DEPTH);
+const VKS_PATH = join(__dirname, "..", "node_modules", "@semaphore-protocol", "proof", "src", "verification-keys.json");
 
-console.log(`  Protocol: ${vk.protocol}`);
-console.log(`  Curve: ${vk.curve}`);
-console.log(`  Public inputs: ${vk.nPublic}`);
-console.log(`  IC length: ${vk.IC.length} (nPublic + 1 = ${vk.nPublic + 1})`);
+const depths = process.argv.length > 2
+  ? process.argv.slice(2).map(Number)
+  : Array.from({ length: MAX_TREE_DEPTH - MIN_TREE_DEPTH + 1 }, (_, i) => MIN_TREE_DEPTH + i);
 
+const allVks = JSON.parse(readFileSync(VKS_PATH, "utf-8"));
 const outDir = join(__dirname, "..", "artifacts");
 mkdirSync(outDir, { recursive: true });
-const outPath = join(outDir, `semaphore-${DEPTH}-vk.json`);
-writeFileSync(outPath, JSON.stringify(vk, null, 2));
 
-console.log(`\nVerification key written to: ${outPath}`);
+for (const depth of depths) {
+  const idx = depth - 1;
+  if (!Number.isInteger(depth) || idx < 0 || idx >= allVks.vk_delta_2.length) {
+    throw new Error(`No verification key found for depth ${depth}`);
+  }
+
+  const vk = validateVerificationKey({
+    protocol: allVks.protocol,
+    curve: allVks.curve,
+    nPublic: allVks.nPublic,
+    vk_alpha_1: allVks.vk_alpha_1,
+    vk_beta_2: allVks.vk_beta_2,
+    vk_gamma_2: allVks.vk_gamma_2,
+    vk_delta_2: allVks.vk_delta_2[idx],
+    IC: allVks.IC[idx],
+  });
+
+  const outPath = join(outDir, `semaphore-${depth}-vk.json`);
+  writeFileSync(outPath, JSON.stringify(vk, null, 2));
+  console.log(`Depth ${String(depth).padStart(2)}: ${vk.protocol}/${vk.curve}, IC length ${vk.IC.length} → ${outPath}`);
+}
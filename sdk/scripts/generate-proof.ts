@@ -16,6 +16,7 @@ import { Group } from "@semaphore-protocol/group";
 import { generateProof, verifyProof } from "@semaphore-protocol/proof";
 import { extractVerificationKey } from "../src/proof.js";
 import { encodeForStarknet } from "../src/calldata.js";
+import { EncodingError } from "../src/errors.js";
 import type { SemaphoreFullProof } from "../src/types.js";
 import { writeFileSync, mkdirSync } from "fs";
 import { join, dirname } from "path";
@@ -102,9 +103,15 @@ async function main() {
 
   // 6. Attempt calldata encoding
   console.log("\n6. Encoding as StarkNet calldata via Garaga...");
-  const calldata = await encodeForStarknet(proof as unknown as SemaphoreFullProof, vk);
+  let calldata: string[] | null = null;
+  try {
+    calldata = await encodeForStarknet(proof as unknown as SemaphoreFullProof, vk);
+  } catch (err) {
+    if (!(err instanceof EncodingError)) throw err;
+    console.log(`   ${err.message.replace(/\n/g, "\n   ")}`);
+  }
 
-  if (calldata[0] === "ENCODING_PENDING") {
+  if (!calldata) {
     console.log("   [FALLBACK] Garaga WASM/Python unavailable — proof saved for manual encoding.");
     console.log("   After installing garaga Python (Phase 4), run:");
     console.log(`   garaga calldata --system groth16 --vk artifacts/semaphore-${depth}-vk.json --proof artifacts/proof.json --public-inputs artifacts/public.json --curve-id bn254`);
@@ -121,7 +128,7 @@ async function main() {
   console.log(`   Nullifier (u256):    ${proof.nullifier}`);
   console.log(`   Proof depth:         ${depth}`);
   console.log(`   Local verification:  PASSED`);
-  console.log(`   Calldata encoding:   ${calldata[0] === "ENCODING_PENDING" ? "PENDING (needs garaga Python)" : "COMPLETE"}`);
+  console.log(`   Calldata encoding:   ${calldata ? "COMPLETE" : "PENDING (needs garaga Python)"}`);
 }
 
 main()
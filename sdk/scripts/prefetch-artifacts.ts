@@ -0,0 +1,54 @@
+/**
+ * Pre-populate the circuit-artifact cache (see src/artifacts.ts) so proofs
+ * can be generated offline.
+ *
+ * Source and cache directory come from SEMAPHORE_ARTIFACTS_SOURCE and
+ * SEMAPHORE_ARTIFACTS_CACHE (defaults: PSE CDN, ~/.cache/semaphore-cairo).
+ *
+ * With --pin, files without a pinned hash are accepted and their SHA-256 is
+ * written to artifacts/circuit-manifest.json. Only pin from a source you trust.
+ *
+ * Usage: npx tsx scripts/prefetch-artifacts.ts [--pin] [depth ...]   (default: 20)
+ */
+import { writeFileSync } from "fs";
+import { CircuitArtifactCache, bundledManifestPath } from "../src/artifacts.js";
+import { DEFAULT_TREE_DEPTH } from "../src/group.js";
+import { ArtifactIntegrityError } from "../src/errors.js";
+
+const args = process.argv.slice(2);
+const pin = args.includes("--pin");
+const depthArgs = args.filter((a) => a !== "--pin").map(Number);
+const depths = depthArgs.length > 0 ? depthArgs : [DEFAULT_TREE_DEPTH];
+
+async function main() {
+  const cache = new CircuitArtifactCache({ allowUnpinned: pin });
+  console.log(`Source: ${cache.source}`);
+  console.log(`Cache:  ${cache.cacheDir}\n`);
+
+  const results = await cache.prefetch(depths);
+  for (const r of results) {
+    console.log(`  ${r.file.padEnd(20)} ${r.sha256} ${r.pinned ? "verified" : "unpinned"}`);
+  }
+
+  const newPins = results.filter((r) => !r.pinned);
+  if (pin && newPins.length > 0) {
+    const manifest = cache.manifest;
+    for (const r of newPins) manifest.artifacts[r.file] = r.sha256;
+    manifest.artifacts = Object.fromEntries(
+      Object.entries(manifest.artifacts).sort(([a], [b]) => a.localeCompare(b, "en", { numeric: true })),
+    );
+    writeFileSync(bundledManifestPath(), JSON.stringify(manifest, null, 2) + "\n");
+    console.log(`\nPinned ${newPins.length} file(s) in ${bundledManifestPath()}`);
+  }
+
+  console.log(`\nCached ${results.length} file(s) for depth(s) ${depths.join(", ")}`);
+}
+
+main().catch((err) => {
+  if (err instanceof ArtifactIntegrityError && err.expected === null) {
+    console.error(`${err.message}\nRe-run with --pin to record it.`);
+  } else {
+    console.error(err);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,457 @@
+/**
+ * Cairo ABI of the Semaphore contract (`contracts/src/semaphore.cairo`).
+ *
+ * Shipped with the SDK so consumers do not need a local `scarb build` to talk
+ * to a deployed contract. Keep in sync with the contract interface and events:
+ * regenerate from `contracts/target/dev/semaphore_Semaphore.contract_class.json`
+ * whenever `ISemaphore` or the `Event` enum changes.
+ */
+
+import type { Abi } from "starknet";
+
+export const SEMAPHORE_ABI = [
+  {
+    "type": "impl",
+    "name": "SemaphoreImpl",
+    "interface_name": "semaphore::semaphore::ISemaphore"
+  },
+  {
+    "type": "struct",
+    "name": "core::integer::u256",
+    "members": [
+      {
+        "name": "low",
+        "type": "core::integer::u128"
+      },
+      {
+        "name": "high",
+        "type": "core::integer::u128"
+      }
+    ]
+  },
+  {
+    "type": "struct",
+    "name": "core::array::Span::<core::felt252>",
+    "members": [
+      {
+        "name": "snapshot",
+        "type": "@core::array::Array::<core::felt252>"
+      }
+    ]
+  },
+  {
+    "type": "enum",
+    "name": "core::bool",
+    "variants": [
+      {
+        "name": "False",
+        "type": "()"
+      },
+      {
+        "name": "True",
+        "type": "()"
+      }
+    ]
+  },
+  {
+    "type": "interface",
+    "name": "semaphore::semaphore::ISemaphore",
+    "items": [
+      {
+        "type": "function",
+        "name": "create_group",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [],
+        "state_mutability": "external"
+      },
+      {
+        "type": "function",
+        "name": "add_member",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          },
+          {
+            "name": "identity_commitment",
+            "type": "core::integer::u256"
+          },
+          {
+            "name": "new_merkle_root",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [],
+        "state_mutability": "external"
+      },
+      {
+        "type": "function",
+        "name": "remove_member",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          },
+          {
+            "name": "identity_commitment",
+            "type": "core::integer::u256"
+          },
+          {
+            "name": "new_merkle_root",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [],
+        "state_mutability": "external"
+      },
+      {
+        "type": "function",
+        "name": "send_signal",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          },
+          {
+            "name": "full_proof_with_hints",
+            "type": "core::array::Span::<core::felt252>"
+          }
+        ],
+        "outputs": [],
+        "state_mutability": "external"
+      },
+      {
+        "type": "function",
+        "name": "get_merkle_root",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [
+          {
+            "type": "core::integer::u256"
+          }
+        ],
+        "state_mutability": "view"
+      },
+      {
+        "type": "function",
+        "name": "is_nullifier_used",
+        "inputs": [
+          {
+            "name": "nullifier",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [
+          {
+            "type": "core::bool"
+          }
+        ],
+        "state_mutability": "view"
+      },
+      {
+        "type": "function",
+        "name": "get_group_member_count",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [
+          {
+            "type": "core::integer::u256"
+          }
+        ],
+        "state_mutability": "view"
+      },
+      {
+        "type": "function",
+        "name": "group_exists",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [
+          {
+            "type": "core::bool"
+          }
+        ],
+        "state_mutability": "view"
+      },
+      {
+        "type": "function",
+        "name": "get_group_admin",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [
+          {
+            "type": "core::starknet::contract_address::ContractAddress"
+          }
+        ],
+        "state_mutability": "view"
+      },
+      {
+        "type": "function",
+        "name": "is_valid_root",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          },
+          {
+            "name": "root",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [
+          {
+            "type": "core::bool"
+          }
+        ],
+        "state_mutability": "view"
+      },
+      {
+        "type": "function",
+        "name": "transfer_admin",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          },
+          {
+            "name": "proposed_admin",
+            "type": "core::starknet::contract_address::ContractAddress"
+          }
+        ],
+        "outputs": [],
+        "state_mutability": "external"
+      },
+      {
+        "type": "function",
+        "name": "accept_admin",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [],
+        "state_mutability": "external"
+      },
+      {
+        "type": "function",
+        "name": "get_pending_admin",
+        "inputs": [
+          {
+            "name": "group_id",
+            "type": "core::integer::u256"
+          }
+        ],
+        "outputs": [
+          {
+            "type": "core::starknet::contract_address::ContractAddress"
+          }
+        ],
+        "state_mutability": "view"
+      }
+    ]
+  },
+  {
+    "type": "constructor",
+    "name": "constructor",
+    "inputs": [
+      {
+        "name": "verifier_address",
+        "type": "core::starknet::contract_address::ContractAddress"
+      },
+      {
+        "name": "root_history_size",
+        "type": "core::integer::u8"
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "semaphore::semaphore::Semaphore::GroupCreated",
+    "kind": "struct",
+    "members": [
+      {
+        "name": "group_id",
+        "type": "core::integer::u256",
+        "kind": "key"
+      },
+      {
+        "name": "admin",
+        "type": "core::starknet::contract_address::ContractAddress",
+        "kind": "data"
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "semaphore::semaphore::Semaphore::MemberAdded",
+    "kind": "struct",
+    "members": [
+      {
+        "name": "group_id",
+        "type": "core::integer::u256",
+        "kind": "key"
+      },
+      {
+        "name": "identity_commitment",
+        "type": "core::integer::u256",
+        "kind": "data"
+      },
+      {
+        "name": "index",
+        "type": "core::integer::u256",
+        "kind": "data"
+      },
+      {
+        "name": "merkle_root",
+        "type": "core::integer::u256",
+        "kind": "data"
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "semaphore::semaphore::Semaphore::MemberRemoved",
+    "kind": "struct",
+    "members": [
+      {
+        "name": "group_id",
+        "type": "core::integer::u256",
+        "kind": "key"
+      },
+      {
+        "name": "identity_commitment",
+        "type": "core::integer::u256",
+        "kind": "data"
+      },
+      {
+        "name": "merkle_root",
+        "type": "core::integer::u256",
+        "kind": "data"
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "semaphore::semaphore::Semaphore::SignalProcessed",
+    "kind": "struct",
+    "members": [
+      {
+        "name": "group_id",
+        "type": "core::integer::u256",
+        "kind": "key"
+      },
+      {
+        "name": "nullifier",
+        "type": "core::integer::u256",
+        "kind": "data"
+      },
+      {
+        "name": "message",
+        "type": "core::integer::u256",
+        "kind": "data"
+      },
+      {
+        "name": "scope",
+        "type": "core::integer::u256",
+        "kind": "data"
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "semaphore::semaphore::Semaphore::AdminTransferProposed",
+    "kind": "struct",
+    "members": [
+      {
+        "name": "group_id",
+        "type": "core::integer::u256",
+        "kind": "key"
+      },
+      {
+        "name": "current_admin",
+        "type": "core::starknet::contract_address::ContractAddress",
+        "kind": "data"
+      },
+      {
+        "name": "proposed_admin",
+        "type": "core::starknet::contract_address::ContractAddress",
+        "kind": "data"
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "semaphore::semaphore::Semaphore::AdminTransferAccepted",
+    "kind": "struct",
+    "members": [
+      {
+        "name": "group_id",
+        "type": "core::integer::u256",
+        "kind": "key"
+      },
+      {
+        "name": "new_admin",
+        "type": "core::starknet::contract_address::ContractAddress",
+        "kind": "data"
+      }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "semaphore::semaphore::Semaphore::Event",
+    "kind": "enum",
+    "variants": [
+      {
+        "name": "GroupCreated",
+        "type": "semaphore::semaphore::Semaphore::GroupCreated",
+        "kind": "nested"
+      },
+      {
+        "name": "MemberAdded",
+        "type": "semaphore::semaphore::Semaphore::MemberAdded",
+        "kind": "nested"
+      },
+      {
+        "name": "MemberRemoved",
+        "type": "semaphore::semaphore::Semaphore::MemberRemoved",
+        "kind": "nested"
+      },
+      {
+        "name": "SignalProcessed",
+        "type": "semaphore::semaphore::Semaphore::SignalProcessed",
+        "kind": "nested"
+      },
+      {
+        "name": "AdminTransferProposed",
+        "type": "semaphore::semaphore::Semaphore::AdminTransferProposed",
+        "kind": "nested"
+      },
+      {
+        "name": "AdminTransferAccepted",
+        "type": "semaphore::semaphore::Semaphore::AdminTransferAccepted",
+        "kind": "nested"
+      }
+    ]
+  }
+] as const satisfies Abi;
@@ -0,0 +1,328 @@
+/**
+ * Offline circuit-artifact cache.
+ *
+ * Proving needs the Semaphore circuit WASM and zkey for the tree depth
+ * (~50MB at depth 20). Left alone, @semaphore-protocol/proof downloads them
+ * from the PSE CDN into the OS temp dir and trusts whatever it receives.
+ *
+ * `CircuitArtifactCache` instead:
+ * - fetches from a configurable source — a local directory or a base URL
+ * - keeps files in a persistent cache directory
+ * - checks every file's SHA-256 against a pinned manifest
+ * - returns explicit paths to pass to the prover
+ *
+ * The bundled manifest lives in `artifacts/circuit-manifest.json`. Pin or
+ * re-pin hashes with `scripts/prefetch-artifacts.ts --pin`, which also
+ * pre-populates the cache (e.g. on an air-gapped build machine, point
+ * SEMAPHORE_ARTIFACTS_SOURCE at a directory of copied artifacts).
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { createReadStream, createWriteStream, existsSync, readFileSync } from "fs";
+import { mkdir, rename, rm, stat } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { fileURLToPath } from "url";
+import { ArtifactFetchError, ArtifactIntegrityError, ConfigurationError, UnsupportedTreeDepthError } from "./errors.js";
+import { MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "./vk.js";
+import type { ProgressOptions, ProofProgress } from "./types.js";
+
+/** Artifact release used by @semaphore-protocol/proof 4.x */
+export const SNARK_ARTIFACTS_VERSION = "4.13.0";
+
+/** Default source: the PSE snark-artifacts CDN */
+export const DEFAULT_ARTIFACTS_SOURCE = `https://snark-artifacts.pse.dev/semaphore/${SNARK_ARTIFACTS_VERSION}`;
+
+/** Report download progress at most once per this many bytes */
+const PROGRESS_STEP_BYTES = 1 << 20;
+
+/** Explicit circuit paths, in the shape the prover accepts */
+export interface SnarkArtifactPaths {
+  wasm: string;
+  zkey: string;
+}
+
+/** Pinned SHA-256 hashes of circuit artifacts, keyed by file name. */
+export interface ArtifactManifest {
+  /** Manifest format version */
+  version: 1;
+  /** Artifact release the hashes were taken from */
+  artifactsVersion: string;
+  /** e.g. "semaphore-20.zkey" → lowercase hex SHA-256 */
+  artifacts: Record<string, string>;
+}
+
+export interface CircuitArtifactCacheOptions {
+  /**
+   * Directory to keep artifacts in.
+   * Default: SEMAPHORE_ARTIFACTS_CACHE, else ~/.cache/semaphore-cairo/artifacts/<version>
+   */
+  cacheDir?: string;
+  /**
+   * Local directory or http(s) base URL holding `semaphore-<depth>.wasm|zkey`.
+   * Default: SEMAPHORE_ARTIFACTS_SOURCE, else DEFAULT_ARTIFACTS_SOURCE
+   */
+  source?: string;
+  /** Pinned hashes (default: the bundled artifacts/circuit-manifest.json) */
+  manifest?: ArtifactManifest;
+  /**
+   * Accept files with no pinned hash instead of throwing. Their hash is
+   * still computed and reported by `prefetch`. Default: false
+   */
+  allowUnpinned?: boolean;
+}
+
+/** One file handled by `prefetch`. */
+export interface PrefetchedArtifact {
+  depth: number;
+  file: string;
+  path: string;
+  sha256: string;
+  /** Whether the manifest pins this file */
+  pinned: boolean;
+}
+
+type ArtifactKind = keyof SnarkArtifactPaths;
+
+/** A transfer shared by concurrent requests for one file */
+interface SharedTransfer {
+  promise: Promise<string>;
+  controller: AbortController;
+  /** Callers still waiting, each with its own progress callback */
+  waiters: Set<ProgressOptions>;
+}
+
+export class CircuitArtifactCache {
+  readonly cacheDir: string;
+  readonly source: string;
+  readonly manifest: ArtifactManifest;
+  private readonly allowUnpinned: boolean;
+  /** Files already verified by this instance, by name → sha256 */
+  private readonly verified = new Map<string, string>();
+  private readonly inFlight = new Map<string, SharedTransfer>();
+
+  constructor(options: CircuitArtifactCacheOptions = {}) {
+    this.cacheDir = options.cacheDir ??
+      process.env.SEMAPHORE_ARTIFACTS_CACHE ??
+      join(homedir(), ".cache", "semaphore-cairo", "artifacts", SNARK_ARTIFACTS_VERSION);
+    this.source = options.source ?? process.env.SEMAPHORE_ARTIFACTS_SOURCE ?? DEFAULT_ARTIFACTS_SOURCE;
+    this.manifest = options.manifest ?? loadArtifactManifest();
+    this.allowUnpinned = options.allowUnpinned ?? false;
+  }
+
+  /**
+   * Get verified local paths for a depth, fetching into the cache if needed.
+   * Transfers are reported as "download" progress; aborting stops them.
+   *
+   * @throws UnsupportedTreeDepthError if the depth is outside 1–32
+   * @throws ArtifactFetchError if a file is missing from the source
+   * @throws ArtifactIntegrityError if a file is unpinned or its hash does not match
+   */
+  async get(depth: number, options: ProgressOptions = {}): Promise<SnarkArtifactPaths> {
+    checkDepth(depth);
+    const [wasm, zkey] = await Promise.all([
+      this.ensure(depth, "wasm", options),
+      this.ensure(depth, "zkey", options),
+    ]);
+    return { wasm, zkey };
+  }
+
+  /**
+   * Fetch and verify the artifacts for several depths, one at a time.
+   *
+   * @returns Every file with its path and SHA-256, for pinning
+   */
+  async prefetch(depths: number[], options: ProgressOptions = {}): Promise<PrefetchedArtifact[]> {
+    const results: PrefetchedArtifact[] = [];
+    for (const depth of depths) {
+      checkDepth(depth);
+      for (const kind of ["wasm", "zkey"] as const) {
+        const file = artifactFileName(depth, kind);
+        const path = await this.ensure(depth, kind, options);
+        results.push({ depth, file, path, sha256: this.verified.get(file)!, pinned: file in this.manifest.artifacts });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Concurrent requests for one file share a transfer. It runs under its own
+   * signal, aborted only once every waiting caller has aborted; each caller
+   * stops waiting as soon as its own signal aborts.
+   */
+  private ensure(depth: number, kind: ArtifactKind, options: ProgressOptions): Promise<string> {
+    options.signal?.throwIfAborted();
+    const file = artifactFileName(depth, kind);
+    let transfer = this.inFlight.get(file);
+    if (!transfer) {
+      const controller = new AbortController();
+      const waiters = new Set<ProgressOptions>();
+      const onProgress = (progress: ProofProgress) => {
+        for (const waiter of waiters) waiter.onProgress?.(progress);
+      };
+      const promise = this.ensureFile(file, { onProgress, signal: controller.signal }).finally(() => {
+        if (this.inFlight.get(file) === transfer) this.inFlight.delete(file);
+      });
+      transfer = { promise, controller, waiters };
+      this.inFlight.set(file, transfer);
+    }
+
+    const shared = transfer;
+    const waiter = { onProgress: options.onProgress };
+    shared.waiters.add(waiter);
+    return abortable(shared.promise, options.signal, () => {
+      shared.waiters.delete(waiter);
+      if (shared.waiters.size > 0) return;
+      // Nobody is left waiting: stop the transfer, and let the next request start afresh
+      if (this.inFlight.get(file) === shared) this.inFlight.delete(file);
+      shared.controller.abort(options.signal!.reason);
+    });
+  }
+
+  private async ensureFile(file: string, options: ProgressOptions): Promise<string> {
+    options.signal?.throwIfAborted();
+    const path = join(this.cacheDir, file);
+    if (this.verified.has(file) && existsSync(path)) return path;
+
+    if (existsSync(path)) {
+      try {
+        this.verified.set(file, this.check(file, await sha256File(path)));
+        return path;
+      } catch (err) {
+        // A corrupt or stale cache entry is replaced; a missing pin is final.
+        if (!(err instanceof ArtifactIntegrityError) || err.expected === null) throw err;
+        await rm(path, { force: true });
+      }
+    }
+
+    await mkdir(this.cacheDir, { recursive: true });
+    const partial = `${path}.${process.pid}.${randomBytes(6).toString("hex")}.partial`;
+    try {
+      await this.fetchTo(file, partial, options);
+      this.verified.set(file, this.check(file, await sha256File(partial)));
+      await rename(partial, path);
+    } finally {
+      await rm(partial, { force: true });
+    }
+    return path;
+  }
+
+  /** @returns the hash, if it is pinned and matches (or unpinned files are allowed) */
+  private check(file: string, actual: string): string {
+    const expected = this.manifest.artifacts[file]?.toLowerCase();
+    if (expected === undefined ? !this.allowUnpinned : expected !== actual) {
+      throw new ArtifactIntegrityError(file, expected ?? null, actual);
+    }
+    return actual;
+  }
+
+  private async fetchTo(file: string, destination: string, options: ProgressOptions): Promise<void> {
+    const { onProgress, signal } = options;
+    let source: Readable;
+    let total: number | null;
+
+    if (!/^https?:\/\//.test(this.source)) {
+      const from = join(this.source, file);
+      if (!existsSync(from)) {
+        throw new ArtifactFetchError(`Circuit artifact ${file} not found in ${this.source}`);
+      }
+      total = (await stat(from)).size;
+      source = createReadStream(from);
+    } else {
+      const url = `${this.source.replace(/\/$/, "")}/${file}`;
+      let response: Response;
+      try {
+        response = await fetch(url, { signal });
+      } catch (err) {
+        if (signal?.aborted) throw signal.reason;
+        throw new ArtifactFetchError(`Failed to fetch ${url}`, { cause: err });
+      }
+      if (!response.ok || !response.body) {
+        throw new ArtifactFetchError(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+      }
+      const length = Number(response.headers.get("content-length"));
+      total = length > 0 ? length : null;
+      source = Readable.fromWeb(response.body as any);
+    }
+
+    let loaded = 0;
+    let reported = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        loaded += chunk.length;
+        if (onProgress && loaded - reported >= PROGRESS_STEP_BYTES) {
+          reported = loaded;
+          onProgress({ phase: "download", file, loaded, total });
+        }
+        callback(null, chunk);
+      },
+    });
+    await pipeline(source, counter, createWriteStream(destination), { signal });
+    onProgress?.({ phase: "download", file, loaded, total: total ?? loaded });
+  }
+}
+
+let defaultCache: CircuitArtifactCache | undefined;
+
+/**
+ * The cache used when no artifacts are configured: default directory and
+ * source, every file checked against the bundled manifest (which pins all
+ * depths of the release).
+ */
+export function getDefaultArtifactCache(): CircuitArtifactCache {
+  return defaultCache ??= new CircuitArtifactCache();
+}
+
+/**
+ * Read an artifact manifest (default: the bundled one).
+ *
+ * @throws ConfigurationError if the file is not a version-1 manifest
+ */
+export function loadArtifactManifest(path: string = bundledManifestPath()): ArtifactManifest {
+  const manifest = JSON.parse(readFileSync(path, "utf-8"));
+  if (manifest?.version !== 1 || typeof manifest.artifacts !== "object" || manifest.artifacts === null) {
+    throw new ConfigurationError(`${path} is not a version-1 circuit artifact manifest`);
+  }
+  return manifest as ArtifactManifest;
+}
+
+/** Path of the manifest bundled with the SDK */
+export function bundledManifestPath(): string {
+  return fileURLToPath(new URL("../artifacts/circuit-manifest.json", import.meta.url));
+}
+
+/** `semaphore-<depth>.wasm` / `semaphore-<depth>.zkey` */
+export function artifactFileName(depth: number, kind: ArtifactKind): string {
+  return `semaphore-${depth}.${kind}`;
+}
+
+/** Lowercase hex SHA-256 of a file, streamed. */
+export async function sha256File(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+/** Settle with `promise`, or call `onAbort` and reject with the signal's reason once it aborts. */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal, onAbort?: () => void): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", abort));
+  });
+}
+
+function checkDepth(depth: number): void {
+  if (!Number.isInteger(depth) || depth < MIN_TREE_DEPTH || depth > MAX_TREE_DEPTH) {
+    throw new UnsupportedTreeDepthError(
+      `No circuit artifacts for tree depth ${depth}: supported depths are ${MIN_TREE_DEPTH}–${MAX_TREE_DEPTH}`,
+    );
+  }
+}
@@ -1,15 +1,19 @@
 /**
  * Encode a Semaphore Groth16 proof as StarkNet calldata using Garaga.
  *
- * Two encoding strategies:
- * 1. Python CLI (garaga gen): Most reliable, used for contract generation
- * 2. Node.js WASM (garaga npm): Faster but has known issues with some proof formats
+ * Encoding is done by pluggable backends tried in order:
+ * 1. "wasm"   — Garaga npm package (Node.js WASM, no external tooling)
+ * 2. "python" — Garaga Python CLI (`garaga calldata`), command configurable
  *
- * Falls back to saving proof/VK to JSON for manual Python CLI encoding.
+ * If every backend fails, an `EncodingError` lists why each one failed.
+ * Callers can pick backends by name, configure them, or pass their own
+ * `GaragaEncoder` implementation.
  *
  * ## Garaga version compatibility
  *
  * The calldata format is tested against **garaga==1.0.1** (BN254, Groth16, depth-20 VK).
+ * The encoding itself is depth-independent: only the VK (and so the verifier
+ * contract it must be sent to) changes with the proof's tree depth.
  * Garaga is under active development — the encoding format may change between versions.
  * If the verifier contract is regenerated with a new Garaga version, re-test this module.
  *
@@ -17,45 +21,97 @@
  * If `encodeForStarknet` returns a materially different length, suspect a format change.
  */
 
-import type { SemaphoreFullProof } from "./types.js";
-import { execSync } from "child_process";
-import { writeFileSync, readFileSync, mkdirSync, existsSync } from "fs";
-import { join, dirname } from "path";
+import type { ProgressOptions, SemaphoreFullProof } from "./types.js";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { writeFileSync, mkdtempSync, rmSync } from "fs";
+import { join } from "path";
 import { tmpdir } from "os";
 import { keccak256, toBeHex } from "ethers";
+import { CalldataError, ConfigurationError, EncodingError, type EncoderFailure } from "./errors.js";
+import { getVerificationKey } from "./vk.js";
+import { assertValidProof } from "./validation.js";
 
 /** Hash a value the same way the Semaphore V4 circuit does: keccak256(toBeHex(v, 32)) >> 8n */
-function hashForCircuit(v: bigint | string): string {
+export function hashForCircuit(v: bigint | string): string {
   return (BigInt(keccak256(toBeHex(v, 32))) >> 8n).toString();
 }
 
+/** A strategy that turns a proof + VK into Garaga calldata. */
+export interface GaragaEncoder {
+  readonly name: string;
+  /** Should stop and reject with `signal.reason` when the signal aborts, if it can */
+  encode(proof: SemaphoreFullProof, verificationKey: any, options?: { signal?: AbortSignal }): Promise<string[]>;
+}
+
+export type EncoderBackendName = "wasm" | "python";
+
+export interface PythonEncoderOptions {
+  /**
+   * Command that runs the Garaga CLI, as [executable, ...args].
+   * Default: the GARAGA_COMMAND env var split on spaces, else ["garaga"].
+   *
+   * @example ["micromamba", "run", "-n", "garaga", "garaga"]
+   */
+  command?: string[];
+  /** Extra environment variables for the command (e.g. MAMBA_ROOT_PREFIX) */
+  env?: Record<string, string>;
+  /** Directory for temporary proof/VK files (default: os.tmpdir()) */
+  tmpDir?: string;
+  /** Timeout for the CLI call in milliseconds (default: 60000) */
+  timeoutMs?: number;
+}
+
+export interface EncodeOptions extends ProgressOptions {
+  /** Backends to try, in order (default: ["wasm", "python"]) */
+  backends?: Array<EncoderBackendName | GaragaEncoder>;
+  /** Configuration for the "python" backend when selected by name */
+  python?: PythonEncoderOptions;
+}
+
 /**
- * Encode a Semaphore proof as StarkNet calldata via Garaga Python CLI.
+ * Encode a Semaphore proof as StarkNet calldata.
  *
  * @param proof - The full Semaphore proof (from generateSemaphoreProof)
- * @param verificationKey - The snarkjs-format VK (depth-specific)
+ * @param verificationKey - The snarkjs-format VK (default: the bundled VK for proof.merkleTreeDepth)
+ * @param options - Backend selection and configuration, progress and cancellation
  * @returns Array of string felt252 values for the `full_proof_with_hints` parameter
+ * @throws InvalidFieldElementError / InvalidCurvePointError if the proof is
+ *   malformed (checked before any backend runs)
+ * @throws EncodingError listing each backend's failure if none succeeded
+ * @throws options.signal's reason if encoding was aborted
+ *
+ * @example
+ * const calldata = await encodeForStarknet(proof, undefined, {
+ *   backends: ["python"],
+ *   python: { command: ["micromamba", "run", "-n", "garaga", "garaga"] },
+ * });
  */
 export async function encodeForStarknet(
   proof: SemaphoreFullProof,
-  verificationKey: any,
+  verificationKey: any = getVerificationKey(proof.merkleTreeDepth),
+  options: EncodeOptions = {},
 ): Promise<string[]> {
-  // Try Garaga npm WASM first
-  try {
-    return await encodeViaGaragaNpm(proof, verificationKey);
-  } catch (_wasmErr) {
-    // Fall back to Python CLI
-  }
+  assertValidProof(proof);
+  const encoders = (options.backends ?? ["wasm", "python"]).map((backend) =>
+    resolveEncoder(backend, options),
+  );
 
-  // Try Garaga Python CLI
-  try {
-    return encodeViaGaragaPython(proof, verificationKey);
-  } catch (_pyErr) {
-    // Fall back to snarkjs calldata export
+  const { onProgress, signal } = options;
+  const failures: EncoderFailure[] = [];
+  for (const encoder of encoders) {
+    signal?.throwIfAborted();
+    onProgress?.({ phase: "encoding", backend: encoder.name });
+    try {
+      const calldata = await encoder.encode(proof, verificationKey, { signal });
+      signal?.throwIfAborted();
+      return calldata;
+    } catch (err: any) {
+      if (signal?.aborted) throw signal.reason;
+      failures.push({ backend: encoder.name, error: err instanceof Error ? err : new Error(String(err)) });
+    }
   }
-
-  // Final fallback: export proof + VK as JSON files for manual encoding
-  return exportProofForManualEncoding(proof, verificationKey);
+  throw new EncodingError(failures);
 }
 
 /**
@@ -65,13 +121,13 @@ export async function encodeForStarknet(
  * A materially different length (< 100 or > 10000) likely indicates a format
  * incompatibility with the on-chain verifier — throw before submitting.
  *
- * @throws if calldata length is outside the expected range
+ * @throws CalldataError if calldata length is outside the expected range
  */
 export function validateCalldataLength(calldata: string[]): void {
   const MIN_EXPECTED = 100;
   const MAX_EXPECTED = 10000;
   if (calldata.length < MIN_EXPECTED || calldata.length > MAX_EXPECTED) {
-    throw new Error(
+    throw new CalldataError(
       `Garaga calldata length ${calldata.length} is outside expected range ` +
       `[${MIN_EXPECTED}, ${MAX_EXPECTED}]. ` +
       `This may indicate a Garaga version mismatch. ` +
@@ -80,6 +136,39 @@ export function validateCalldataLength(calldata: string[]): void {
   }
 }
 
+/**
+ * Encoder backed by the Garaga npm package (WASM).
+ */
+export function createWasmEncoder(): GaragaEncoder {
+  return { name: "wasm", encode: encodeViaGaragaNpm };
+}
+
+/**
+ * Encoder backed by the Garaga Python CLI.
+ * Requires the garaga Python package with the `garaga calldata` subcommand.
+ */
+export function createPythonEncoder(options: PythonEncoderOptions = {}): GaragaEncoder {
+  return {
+    name: "python",
+    encode: (proof, vk, encodeOptions) => encodeViaGaragaPython(proof, vk, options, encodeOptions?.signal),
+  };
+}
+
+function resolveEncoder(
+  backend: EncoderBackendName | GaragaEncoder,
+  options: EncodeOptions,
+): GaragaEncoder {
+  if (typeof backend !== "string") return backend;
+  switch (backend) {
+    case "wasm":
+      return createWasmEncoder();
+    case "python":
+      return createPythonEncoder(options.python);
+    default:
+      throw new ConfigurationError(`Unknown Garaga encoder backend "${backend}" (expected "wasm" or "python")`);
+  }
+}
+
 /**
  * Attempt encoding via Garaga npm WASM.
  */
@@ -96,7 +185,7 @@ async function encodeViaGaragaNpm(
     a: { x: p[0], y: p[1] },
     b: { x: [p[3], p[2]], y: [p[5], p[4]] },
     c: { x: p[6], y: p[7] },
-    publicInputs: [proof.merkleTreeRoot, proof.nullifier, hashForCircuit(proof.message), hashForCircuit(proof.scope)],
+    publicInputs: toPublicSignals(proof),
   };
 
   const garagaVk = {
@@ -117,105 +206,89 @@ async function encodeViaGaragaNpm(
   };
 
   const result = garaga.getGroth16CallData(garagaProof as any, garagaVk as any, garaga.CurveId.BN254);
-  const resultStrings = result.map((v: bigint) => v.toString());
   // The WASM returns the full span encoding [span_length, elem0, ..., elemN-1].
   // Strip the span_length prefix — starknet.js ABI encoding adds it automatically
   // when the parameter is declared as Span<felt252>.
-  if (resultStrings.length > 1 && resultStrings[0] === String(resultStrings.length - 1)) {
-    return resultStrings.slice(1);
-  }
-  return resultStrings;
+  return stripSpanLength(result.map((v: bigint) => v.toString()));
 }
 
 /**
- * Attempt encoding via Garaga Python CLI.
- * Requires: garaga Python package installed with `garaga calldata` subcommand.
+ * Attempt encoding via Garaga Python CLI. Aborting kills the CLI process.
  */
-function encodeViaGaragaPython(
+async function encodeViaGaragaPython(
   proof: SemaphoreFullProof,
   vk: any,
-): string[] {
-  const tmpDir = join(tmpdir(), "semaphore-garaga-" + Date.now());
-  mkdirSync(tmpDir, { recursive: true });
+  options: PythonEncoderOptions,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const command = options.command ?? process.env.GARAGA_COMMAND?.split(" ").filter(Boolean) ?? ["garaga"];
+  if (command.length === 0) {
+    throw new ConfigurationError("Garaga Python command is empty");
+  }
+  const [executable, ...baseArgs] = command;
+  const workDir = mkdtempSync(join(options.tmpDir ?? tmpdir(), "semaphore-garaga-"));
 
-  // Write snarkjs-format proof
-  const p = proof.points;
-  const snarkjsProof = {
-    pi_a: [p[0], p[1], "1"],
-    pi_b: [[p[3], p[2]], [p[5], p[4]], ["1", "0"]],
-    pi_c: [p[6], p[7], "1"],
-    protocol: "groth16",
-    curve: "bn128",
-  };
+  try {
+    const proofPath = join(workDir, "proof.json");
+    const publicPath = join(workDir, "public.json");
+    const vkPath = join(workDir, "vk.json");
 
-  const publicSignals = [
-    proof.merkleTreeRoot,
-    proof.nullifier,
-    hashForCircuit(proof.message),
-    hashForCircuit(proof.scope),
-  ];
+    writeFileSync(proofPath, JSON.stringify(toSnarkjsProof(proof), null, 2));
+    writeFileSync(publicPath, JSON.stringify(toPublicSignals(proof), null, 2));
+    writeFileSync(vkPath, JSON.stringify(vk, null, 2));
 
-  const proofPath = join(tmpDir, "proof.json");
-  const publicPath = join(tmpDir, "public.json");
-  const vkPath = join(tmpDir, "vk.json");
-
-  writeFileSync(proofPath, JSON.stringify(snarkjsProof, null, 2));
-  writeFileSync(publicPath, JSON.stringify(publicSignals, null, 2));
-  writeFileSync(vkPath, JSON.stringify(vk, null, 2));
-
-  // Try garaga calldata command via micromamba (Python 3.10 env)
-  const mambaPrefix = process.env.MAMBA_ROOT_PREFIX || join(process.env.HOME || "/home/icon", ".mamba");
-  const micromamba = join(process.env.HOME || "/home/icon", ".local", "bin", "micromamba");
-  const cmd = `MAMBA_ROOT_PREFIX="${mambaPrefix}" "${micromamba}" run -n garaga garaga calldata --system groth16 --vk "${vkPath}" --proof "${proofPath}" --public-inputs "${publicPath}" --format array 2>&1`;
-  const output = execSync(cmd, { encoding: "utf-8", timeout: 60000 }).trim();
-
-  // Parse the calldata output (garaga outputs a JSON array of values)
-  // The first element is a count of subsequent elements (N-1 where N is array length).
-  // Strip it — the on-chain deserializer receives a Span<felt252> which already
-  // has its own length via StarkNet serialization.
-  const rawCalldata: string[] = JSON.parse(output);
-  if (rawCalldata.length > 1 && String(rawCalldata[0]) === String(rawCalldata.length - 1)) {
-    return rawCalldata.slice(1);
+    const args = [
+      ...baseArgs,
+      "calldata", "--system", "groth16",
+      "--vk", vkPath,
+      "--proof", proofPath,
+      "--public-inputs", publicPath,
+      "--format", "array",
+    ];
+    const { stdout } = await promisify(execFile)(executable, args, {
+      encoding: "utf-8",
+      timeout: options.timeoutMs ?? 60000,
+      env: { ...process.env, ...options.env },
+      signal,
+    });
+    const output = stdout.trim();
+
+    // Parse the calldata output (garaga outputs a JSON array of values)
+    // The first element is a count of subsequent elements (N-1 where N is array length).
+    // Strip it — the on-chain deserializer receives a Span<felt252> which already
+    // has its own length via StarkNet serialization.
+    const rawCalldata: string[] = JSON.parse(output);
+    return stripSpanLength(rawCalldata.map(String));
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
   }
-  return rawCalldata;
 }
 
-/**
- * Export proof and VK as JSON files for manual encoding.
- * Returns file paths instead of calldata.
- */
-function exportProofForManualEncoding(
-  proof: SemaphoreFullProof,
-  vk: any,
-): string[] {
+/** snarkjs-format proof (pi_b coordinates swapped back from Semaphore's packing) */
+function toSnarkjsProof(proof: SemaphoreFullProof) {
   const p = proof.points;
-
-  // Write snarkjs-format proof for manual garaga CLI use
-  const snarkjsProof = {
+  return {
     pi_a: [p[0], p[1], "1"],
     pi_b: [[p[3], p[2]], [p[5], p[4]], ["1", "0"]],
     pi_c: [p[6], p[7], "1"],
     protocol: "groth16",
     curve: "bn128",
   };
+}
 
-  const publicSignals = [
+/** Public signals in circuit order: root, nullifier, hash(message), hash(scope) */
+function toPublicSignals(proof: SemaphoreFullProof): string[] {
+  return [
     proof.merkleTreeRoot,
     proof.nullifier,
     hashForCircuit(proof.message),
     hashForCircuit(proof.scope),
   ];
+}
 
-  console.warn("[calldata] Garaga WASM and Python CLI both unavailable.");
-  console.warn("[calldata] Proof and public signals exported for manual encoding.");
-  console.warn("[calldata] Run: garaga calldata --system groth16 --vk vk.json --proof proof.json --public-inputs public.json --curve-id bn254");
-
-  // Return the proof data as a flat array of strings (public inputs as felt-like values)
-  // This allows the e2e test to validate the data format even without Garaga encoding
-  return [
-    "ENCODING_PENDING",
-    ...publicSignals,
-    JSON.stringify(snarkjsProof),
-    JSON.stringify(vk),
-  ];
+function stripSpanLength(values: string[]): string[] {
+  if (values.length > 1 && values[0] === String(values.length - 1)) {
+    return values.slice(1);
+  }
+  return values;
 }
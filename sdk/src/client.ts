@@ -0,0 +1,323 @@
+/**
+ * Typed client for the on-chain Semaphore contract (ISemaphore).
+ *
+ * Wraps a starknet.js `Contract` built from the bundled ABI so callers pass
+ * bigints instead of raw calldata arrays. u256 arguments are split into
+ * low/high limbs by starknet.js; u256 return values are rejoined into bigints.
+ *
+ * Every state-changing method waits for the transaction and returns its
+ * receipt, so callers never have to pair `invoke` with `waitForTransaction`.
+ * Reverts (at estimation or in a mined transaction) are thrown as typed
+ * `ContractRevertError` subclasses from errors.ts.
+ *
+ * Arguments are range-checked before anything is sent (u256 IDs, BN254
+ * scalar-field commitments and roots, felt252 calldata and addresses); an
+ * out-of-range value throws `InvalidFieldElementError` naming the argument.
+ *
+ * `preflightSendSignal` simulates `send_signal` without submitting it, so a
+ * relayer can refuse a signal that would revert (stale root, used nullifier,
+ * unknown group, bad proof) before paying for it.
+ */
+
+import {
+  Account,
+  Contract,
+  TransactionType,
+  addAddressPadding,
+  hash,
+  num,
+  type BlockIdentifier,
+  type GetTransactionReceiptResponse,
+  type ProviderOrAccount,
+  type RawArgsArray,
+  type ResourceBoundsBN,
+  type SimulateTransactionOverhead,
+} from "starknet";
+import { SEMAPHORE_ABI } from "./abi.js";
+import { ConfigurationError, ContractRevertError, decodeRevertReason, toSemaphoreError } from "./errors.js";
+import { assertFelt252, assertScalarField, assertU256 } from "./validation.js";
+import { decodeVerifierResult, toSignalPublicInputs } from "./verifier.js";
+
+export interface SemaphoreClientOptions {
+  /** Address of the deployed Semaphore contract */
+  address: string;
+  /** Provider for read-only use, or Account to send transactions */
+  providerOrAccount: ProviderOrAccount;
+}
+
+export interface SemaphoreTransaction {
+  transactionHash: string;
+  receipt: GetTransactionReceiptResponse;
+}
+
+/** Public inputs returned by the verifier: the values `send_signal` checks and records. */
+export interface SignalPublicInputs {
+  merkleTreeRoot: bigint;
+  nullifier: bigint;
+  /** hashForCircuit(message) */
+  message: bigint;
+  /** hashForCircuit(scope) */
+  scope: bigint;
+}
+
+/** Gas used by a simulated transaction. */
+export interface SignalExecutionResources {
+  l1Gas: number;
+  l1DataGas: number;
+  l2Gas: number;
+}
+
+/** Outcome of `preflightSendSignal`. */
+export interface SignalPreflight {
+  /** Whether `send_signal` would succeed */
+  ok: boolean;
+  /** The revert, as a typed error (e.g. `MerkleRootMismatchError`), or null if it would succeed */
+  error: ContractRevertError | null;
+  /** Estimated fee. Also given for a revert, which is charged too. Null if simulation failed before execution. */
+  fee: { overallFee: bigint; unit: string; resourceBounds: ResourceBoundsBN } | null;
+  /** What the verifier returned, or null if it was not reached or rejected the proof */
+  publicInputs: SignalPublicInputs | null;
+  /** Gas used, or null if simulation failed before execution */
+  resources: SignalExecutionResources | null;
+}
+
+export interface PreflightOptions {
+  /** Block to simulate on (default: the provider's default, usually latest) */
+  blockIdentifier?: BlockIdentifier;
+  /** Skip the account's signature validation (default: true) */
+  skipValidate?: boolean;
+}
+
+export class SemaphoreClient {
+  readonly address: string;
+  readonly contract: Contract;
+  private readonly providerOrAccount: ProviderOrAccount;
+
+  constructor(options: SemaphoreClientOptions) {
+    this.address = options.address;
+    this.providerOrAccount = options.providerOrAccount;
+    this.contract = new Contract({
+      abi: SEMAPHORE_ABI,
+      address: options.address,
+      providerOrAccount: options.providerOrAccount,
+    });
+  }
+
+  // ── Transactions ─────────────────────────────────────────────────────
+
+  /** Create a new group. The caller becomes its admin. */
+  async createGroup(groupId: bigint): Promise<SemaphoreTransaction> {
+    assertU256(groupId, "groupId");
+    return this.invoke("create_group", [groupId]);
+  }
+
+  /**
+   * Add a member. `newMerkleRoot` is the off-chain root after insertion
+   * (see `addMember` in group.ts).
+   */
+  async addMember(
+    groupId: bigint,
+    identityCommitment: bigint,
+    newMerkleRoot: bigint,
+  ): Promise<SemaphoreTransaction> {
+    assertMemberChange(groupId, identityCommitment, newMerkleRoot);
+    return this.invoke("add_member", [groupId, identityCommitment, newMerkleRoot]);
+  }
+
+  /**
+   * Remove a member. `newMerkleRoot` is the off-chain root after the leaf
+   * has been zeroed (see `removeMember` in group.ts).
+   */
+  async removeMember(
+    groupId: bigint,
+    identityCommitment: bigint,
+    newMerkleRoot: bigint,
+  ): Promise<SemaphoreTransaction> {
+    assertMemberChange(groupId, identityCommitment, newMerkleRoot);
+    return this.invoke("remove_member", [groupId, identityCommitment, newMerkleRoot]);
+  }
+
+  /**
+   * Send an anonymous signal.
+   *
+   * @param calldata - Garaga calldata from encodeForStarknet (without span length prefix)
+   */
+  async sendSignal(groupId: bigint, calldata: string[]): Promise<SemaphoreTransaction> {
+    assertU256(groupId, "groupId");
+    calldata.forEach((felt, i) => assertFelt252(felt, `calldata[${i}]`));
+    return this.invoke("send_signal", [groupId, calldata]);
+  }
+
+  /**
+   * Simulate `sendSignal` with the same call, without submitting it.
+   * Requires an Account. A revert is reported in the verdict, not thrown.
+   *
+   * @throws ConfigurationError if the client was built without an Account
+   * @throws if simulation fails for a reason other than a contract revert
+   *   (e.g. the account cannot pay the fee)
+   *
+   * @example
+   * const verdict = await semaphore.preflightSendSignal(GROUP_ID, calldata);
+   * if (!verdict.ok) return res.status(400).json({ error: verdict.error!.reason });
+   */
+  async preflightSendSignal(
+    groupId: bigint,
+    calldata: string[],
+    options: PreflightOptions = {},
+  ): Promise<SignalPreflight> {
+    assertU256(groupId, "groupId");
+    calldata.forEach((felt, i) => assertFelt252(felt, `calldata[${i}]`));
+    if (!(this.providerOrAccount instanceof Account)) {
+      throw new ConfigurationError("preflightSendSignal needs a SemaphoreClient built with an Account");
+    }
+    const call = this.contract.populate("send_signal", [groupId, calldata]);
+
+    let simulation: SimulateTransactionOverhead;
+    try {
+      [simulation] = await this.providerOrAccount.simulateTransaction(
+        [{ type: TransactionType.INVOKE, ...call }],
+        { blockIdentifier: options.blockIdentifier, skipValidate: options.skipValidate ?? true },
+      );
+    } catch (err) {
+      // Nodes may reject a reverting simulation outright instead of
+      // returning a reverted trace.
+      const error = decodeRevertReason(err);
+      if (!error) throw toSemaphoreError(err);
+      return { ok: false, error, fee: null, publicInputs: null, resources: null };
+    }
+
+    const trace = simulation.transaction_trace as InvokeTrace;
+    const execution = trace.execute_invocation;
+    const reason = execution?.revert_reason;
+    const error = reason === undefined
+      ? null
+      : decodeRevertReason(reason) ?? new ContractRevertError(reason);
+    const resources = trace.execution_resources;
+    return {
+      ok: error === null,
+      error,
+      fee: { overallFee: simulation.overall_fee, unit: simulation.unit, resourceBounds: simulation.resourceBounds },
+      publicInputs: reason === undefined ? findPublicInputs(execution) : null,
+      resources: resources
+        ? {
+          l1Gas: Number(resources.l1_gas),
+          l1DataGas: Number(resources.l1_data_gas ?? 0),
+          l2Gas: Number(resources.l2_gas ?? 0),
+        }
+        : null,
+    };
+  }
+
+  /** Propose a new admin. The proposed admin must call acceptAdmin. */
+  async transferAdmin(groupId: bigint, proposedAdmin: string): Promise<SemaphoreTransaction> {
+    assertU256(groupId, "groupId");
+    assertFelt252(proposedAdmin, "proposedAdmin");
+    return this.invoke("transfer_admin", [groupId, proposedAdmin]);
+  }
+
+  /** Accept a pending admin transfer (caller must be the proposed admin). */
+  async acceptAdmin(groupId: bigint): Promise<SemaphoreTransaction> {
+    assertU256(groupId, "groupId");
+    return this.invoke("accept_admin", [groupId]);
+  }
+
+  // ── Views ────────────────────────────────────────────────────────────
+
+  async getMerkleRoot(groupId: bigint): Promise<bigint> {
+    assertU256(groupId, "groupId");
+    return BigInt(await this.contract.call("get_merkle_root", [groupId]) as bigint);
+  }
+
+  async isNullifierUsed(nullifier: bigint): Promise<boolean> {
+    assertU256(nullifier, "nullifier");
+    return Boolean(await this.contract.call("is_nullifier_used", [nullifier]));
+  }
+
+  async getGroupMemberCount(groupId: bigint): Promise<bigint> {
+    assertU256(groupId, "groupId");
+    return BigInt(await this.contract.call("get_group_member_count", [groupId]) as bigint);
+  }
+
+  async groupExists(groupId: bigint): Promise<boolean> {
+    assertU256(groupId, "groupId");
+    return Boolean(await this.contract.call("group_exists", [groupId]));
+  }
+
+  /** Returns the admin address as a 0x-prefixed, zero-padded hex string. */
+  async getGroupAdmin(groupId: bigint): Promise<string> {
+    assertU256(groupId, "groupId");
+    return toAddress(await this.contract.call("get_group_admin", [groupId]));
+  }
+
+  async isValidRoot(groupId: bigint, root: bigint): Promise<boolean> {
+    assertU256(groupId, "groupId");
+    assertU256(root, "root");
+    return Boolean(await this.contract.call("is_valid_root", [groupId, root]));
+  }
+
+  /** Returns the pending admin address, or the zero address if none. */
+  async getPendingAdmin(groupId: bigint): Promise<string> {
+    assertU256(groupId, "groupId");
+    return toAddress(await this.contract.call("get_pending_admin", [groupId]));
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────
+
+  private async invoke(method: string, args: RawArgsArray): Promise<SemaphoreTransaction> {
+    let transactionHash: string;
+    let receipt: GetTransactionReceiptResponse;
+    try {
+      ({ transaction_hash: transactionHash } = await this.contract.invoke(method, args));
+      receipt = await this.providerOrAccount.waitForTransaction(transactionHash);
+    } catch (err) {
+      throw toSemaphoreError(err);
+    }
+
+    if (receipt.isReverted()) {
+      const reason = receipt.value.revert_reason ?? "unknown reason";
+      throw decodeRevertReason(reason, receipt) ??
+        new ContractRevertError(`${method} reverted in ${transactionHash}: ${reason}`, { cause: receipt });
+    }
+    return { transactionHash, receipt };
+  }
+}
+
+/** The parts of a simulated INVOKE trace that preflightSendSignal reads. */
+interface InvokeTrace {
+  /** A call tree, or only `revert_reason` when execution reverted */
+  execute_invocation?: FunctionInvocation;
+  execution_resources?: { l1_gas: number; l1_data_gas?: number; l2_gas?: number };
+}
+
+interface FunctionInvocation {
+  entry_point_selector?: string;
+  result?: string[];
+  calls?: FunctionInvocation[];
+  revert_reason?: string;
+}
+
+const VERIFY_SELECTOR = BigInt(hash.getSelectorFromName("verify_groth16_proof_bn254"));
+
+/** Find the verifier call in a simulated call tree and decode its Ok result. */
+function findPublicInputs(invocation: FunctionInvocation | undefined): SignalPublicInputs | null {
+  if (!invocation) return null;
+  if (BigInt(invocation.entry_point_selector ?? -1) === VERIFY_SELECTOR) {
+    const decoded = decodeVerifierResult((invocation.result ?? []).map(BigInt));
+    return decoded?.ok ? toSignalPublicInputs(decoded.inputs) : null;
+  }
+  for (const call of invocation.calls ?? []) {
+    const found = findPublicInputs(call);
+    if (found) return found;
+  }
+  return null;
+}
+
+function assertMemberChange(groupId: bigint, identityCommitment: bigint, newMerkleRoot: bigint): void {
+  assertU256(groupId, "groupId");
+  assertScalarField(identityCommitment, "identityCommitment");
+  assertScalarField(newMerkleRoot, "newMerkleRoot");
+}
+
+function toAddress(value: unknown): string {
+  return addAddressPadding(num.toHex(value as bigint));
+}
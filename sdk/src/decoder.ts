@@ -0,0 +1,226 @@
+/**
+ * Decode Garaga Groth16 (BN254) calldata back into its parts.
+ *
+ * Layout of `full_proof_with_hints` as read by garaga==1.0.1's
+ * `deserialize_full_proof_with_hints_bn254`:
+ *
+ *   a: G1Point                 8 felts  (x, y as u384 = 4 × 96-bit limbs each)
+ *   b: G2Point                16 felts  (x0, x1, y0, y1 as u384)
+ *   c: G1Point                 8 felts
+ *   public_inputs: Span<u256>  1 + 2n   (length, then low/high pairs)
+ *   mpcheck_hint:
+ *     lambda_root: E12D<u288>          36 felts (12 × 3 × 96-bit limbs)
+ *     lambda_root_inverse: E12D<u288>  36 felts
+ *     w: MillerLoopResultScalingFactor 18 felts (6 × u288)
+ *     Ris: Span<E12D<u288>>            1 + 36n
+ *     big_Q: Array<u288>               1 + 3n
+ *     z: felt252                        1 felt
+ *   msm_hint: Span<felt252>    1 + n
+ *
+ * For the depth-20 Semaphore VK this adds up to 1977 felts. Input is the
+ * array returned by encodeForStarknet (no outer span length prefix); a
+ * prefixed array is accepted too.
+ */
+
+import type { SemaphoreFullProof } from "./types.js";
+import { u256FromFelts } from "./felt.js";
+import { hashForCircuit } from "./calldata.js";
+import { CalldataError } from "./errors.js";
+
+export interface G1Point {
+  x: bigint;
+  y: bigint;
+}
+
+/** G2 point with Fp2 coordinates as [c0, c1] (snarkjs `pi_b` order). */
+export interface G2Point {
+  x: [bigint, bigint];
+  y: [bigint, bigint];
+}
+
+/** A named slice of the calldata array. */
+export interface CalldataSection {
+  name: string;
+  offset: number;
+  length: number;
+}
+
+export interface DecodedCalldata {
+  a: G1Point;
+  b: G2Point;
+  c: G1Point;
+  /** Public inputs exactly as the verifier will return them */
+  publicInputs: bigint[];
+  /** The four Semaphore public inputs, named (message and scope are hashed) */
+  merkleTreeRoot: bigint;
+  nullifier: bigint;
+  hashedMessage: bigint;
+  hashedScope: bigint;
+  /** Number of Ris entries in the multi-pairing check hint */
+  risCount: number;
+  /** Number of u288 coefficients in big_Q */
+  bigQLength: number;
+  /** Number of felts in the MSM hint */
+  msmHintLength: number;
+  /** Every section with its offset, in calldata order */
+  sections: CalldataSection[];
+  /** Total number of felts decoded */
+  length: number;
+}
+
+/** A field of the calldata that does not match the off-chain proof. */
+export interface CalldataMismatch {
+  field: string;
+  expected: bigint;
+  actual: bigint;
+}
+
+const LIMB_BITS = 96n;
+const LIMB_MAX = 1n << LIMB_BITS;
+
+/**
+ * Parse Garaga Groth16 calldata into proof points, public inputs and hints.
+ *
+ * @throws CalldataError if the array is truncated, has trailing felts, or a limb is out of range
+ */
+export function decodeCalldata(calldata: string[]): DecodedCalldata {
+  let felts = calldata.map((v) => BigInt(v));
+  if (felts.length > 1 && felts[0] === BigInt(felts.length - 1)) {
+    felts = felts.slice(1);
+  }
+
+  const sections: CalldataSection[] = [];
+  let offset = 0;
+
+  const take = (name: string, length: number): bigint[] => {
+    if (offset + length > felts.length) {
+      throw new CalldataError(
+        `Garaga calldata truncated in section "${name}": need ${length} felts at offset ${offset}, ` +
+        `only ${felts.length - offset} left (total ${felts.length})`,
+      );
+    }
+    sections.push({ name, offset, length });
+    const slice = felts.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+
+  const takeSpan = (name: string, itemSize: number): { count: number; items: bigint[] } => {
+    const [count] = take(`${name}.length`, 1);
+    if (count > BigInt(felts.length)) {
+      throw new CalldataError(`Garaga calldata section "${name}" declares implausible length ${count}`);
+    }
+    return { count: Number(count), items: take(name, Number(count) * itemSize) };
+  };
+
+  const a = take("a", 8);
+  const b = take("b", 16);
+  const c = take("c", 8);
+  const pi = takeSpan("public_inputs", 2);
+  take("mpcheck_hint.lambda_root", 36);
+  take("mpcheck_hint.lambda_root_inverse", 36);
+  take("mpcheck_hint.w", 18);
+  const ris = takeSpan("mpcheck_hint.Ris", 36);
+  const bigQ = takeSpan("mpcheck_hint.big_Q", 3);
+  take("mpcheck_hint.z", 1);
+  const msm = takeSpan("msm_hint", 1);
+
+  if (offset !== felts.length) {
+    throw new CalldataError(
+      `Garaga calldata has ${felts.length - offset} trailing felts after msm_hint ` +
+      `(decoded ${offset} of ${felts.length})`,
+    );
+  }
+
+  const publicInputs: bigint[] = [];
+  for (let i = 0; i < pi.items.length; i += 2) {
+    publicInputs.push(u256FromFelts(pi.items[i], pi.items[i + 1]));
+  }
+  if (publicInputs.length !== 4) {
+    throw new CalldataError(`Expected 4 Semaphore public inputs, calldata has ${publicInputs.length}`);
+  }
+
+  return {
+    a: { x: u384("a.x", a, 0), y: u384("a.y", a, 4) },
+    b: {
+      x: [u384("b.x0", b, 0), u384("b.x1", b, 4)],
+      y: [u384("b.y0", b, 8), u384("b.y1", b, 12)],
+    },
+    c: { x: u384("c.x", c, 0), y: u384("c.y", c, 4) },
+    publicInputs,
+    merkleTreeRoot: publicInputs[0],
+    nullifier: publicInputs[1],
+    hashedMessage: publicInputs[2],
+    hashedScope: publicInputs[3],
+    risCount: ris.count,
+    bigQLength: bigQ.count,
+    msmHintLength: msm.count,
+    sections,
+    length: felts.length,
+  };
+}
+
+/**
+ * Compare decoded calldata against the off-chain proof it was encoded from.
+ *
+ * Checks the proof points (in the same order encodeForStarknet packs them)
+ * and the four public inputs, hashing message and scope as the circuit does.
+ *
+ * @returns The mismatching fields (empty if the calldata matches)
+ */
+export function compareCalldataToProof(
+  decoded: DecodedCalldata,
+  proof: SemaphoreFullProof,
+): CalldataMismatch[] {
+  const p = proof.points.map((v) => BigInt(v));
+  const expected: Array<[string, bigint, bigint]> = [
+    ["a.x", p[0], decoded.a.x],
+    ["a.y", p[1], decoded.a.y],
+    ["b.x0", p[3], decoded.b.x[0]],
+    ["b.x1", p[2], decoded.b.x[1]],
+    ["b.y0", p[5], decoded.b.y[0]],
+    ["b.y1", p[4], decoded.b.y[1]],
+    ["c.x", p[6], decoded.c.x],
+    ["c.y", p[7], decoded.c.y],
+    ["merkleTreeRoot", BigInt(proof.merkleTreeRoot), decoded.merkleTreeRoot],
+    ["nullifier", BigInt(proof.nullifier), decoded.nullifier],
+    ["hashedMessage", BigInt(hashForCircuit(proof.message)), decoded.hashedMessage],
+    ["hashedScope", BigInt(hashForCircuit(proof.scope)), decoded.hashedScope],
+  ];
+  return expected
+    .filter(([, want, got]) => want !== got)
+    .map(([field, want, got]) => ({ field, expected: want, actual: got }));
+}
+
+/**
+ * Decode calldata and check it against the proof before paying gas.
+ *
+ * @throws CalldataError listing every mismatching field if the calldata does not match
+ */
+export function assertCalldataMatchesProof(
+  calldata: string[],
+  proof: SemaphoreFullProof,
+): DecodedCalldata {
+  const decoded = decodeCalldata(calldata);
+  const mismatches = compareCalldataToProof(decoded, proof);
+  if (mismatches.length > 0) {
+    throw new CalldataError(
+      `Garaga calldata does not match the proof: ` +
+      mismatches.map((m) => `${m.field} (expected ${m.expected}, got ${m.actual})`).join(", "),
+    );
+  }
+  return decoded;
+}
+
+/** Join four 96-bit limbs (little-endian) into a u384 value. */
+function u384(name: string, felts: bigint[], start: number): bigint {
+  let value = 0n;
+  for (let i = 0; i < 4; i++) {
+    const limb = felts[start + i];
+    if (limb < 0n || limb >= LIMB_MAX) {
+      throw new CalldataError(`Limb ${i} of ${name} is not a 96-bit value: ${limb}`);
+    }
+    value += limb << (LIMB_BITS * BigInt(i));
+  }
+  return value;
+}
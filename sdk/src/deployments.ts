@@ -0,0 +1,142 @@
+/**
+ * Per-depth deployment routing.
+ *
+ * A Garaga verifier is compiled for exactly one verification key, so every
+ * supported tree depth needs its own verifier and its own Semaphore contract
+ * constructed with it. Groups live on the contract they were created on:
+ * pick the depth for a group's expected maximum size when creating it, and
+ * prove with that depth from then on.
+ *
+ * `SemaphoreRouter` keeps one `SemaphoreClient` per registered depth. Proofs
+ * are sent to the deployment of the group's depth, encoded with that depth's
+ * VK; a proof of any other depth is rejected before anything is sent.
+ */
+
+import type { ProviderOrAccount } from "starknet";
+import type { SemaphoreFullProof } from "./types.js";
+import { SemaphoreClient, type SemaphoreTransaction } from "./client.js";
+import { encodeForStarknet, type EncodeOptions } from "./calldata.js";
+import { treeDepthForSize } from "./group.js";
+import { getVerificationKey, MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "./vk.js";
+import { UnsupportedTreeDepthError } from "./errors.js";
+
+/** A Semaphore contract whose verifier was generated for one tree depth. */
+export interface SemaphoreDeployment {
+  treeDepth: number;
+  /** Address of the Semaphore contract */
+  address: string;
+  /** Address of its Garaga verifier, for `dryRunVerifier` */
+  verifierAddress?: string;
+}
+
+export interface SemaphoreRouterOptions {
+  deployments: SemaphoreDeployment[];
+  /** Provider for read-only use, or Account to send transactions */
+  providerOrAccount: ProviderOrAccount;
+}
+
+export class SemaphoreRouter {
+  private readonly deployments = new Map<number, SemaphoreDeployment>();
+  private readonly clients = new Map<number, SemaphoreClient>();
+  private readonly providerOrAccount: ProviderOrAccount;
+
+  constructor(options: SemaphoreRouterOptions) {
+    this.providerOrAccount = options.providerOrAccount;
+    for (const deployment of options.deployments) this.register(deployment);
+  }
+
+  /**
+   * Register (or replace) the deployment for a depth.
+   *
+   * @throws UnsupportedTreeDepthError if no VK is bundled or registered for the depth
+   */
+  register(deployment: SemaphoreDeployment): void {
+    const { treeDepth } = deployment;
+    if (!Number.isInteger(treeDepth) || treeDepth < MIN_TREE_DEPTH || treeDepth > MAX_TREE_DEPTH) {
+      throw new UnsupportedTreeDepthError(
+        `Cannot register a deployment for tree depth ${treeDepth}: expected ${MIN_TREE_DEPTH}–${MAX_TREE_DEPTH}`,
+      );
+    }
+    getVerificationKey(treeDepth);
+    this.deployments.set(treeDepth, deployment);
+    this.clients.delete(treeDepth);
+  }
+
+  /** Registered depths, ascending. */
+  get depths(): number[] {
+    return [...this.deployments.keys()].sort((a, b) => a - b);
+  }
+
+  /**
+   * The deployment for a depth.
+   *
+   * @throws UnsupportedTreeDepthError if none is registered
+   */
+  deployment(treeDepth: number): SemaphoreDeployment {
+    const deployment = this.deployments.get(treeDepth);
+    if (!deployment) {
+      throw new UnsupportedTreeDepthError(
+        `No Semaphore deployment registered for tree depth ${treeDepth} ` +
+        `(registered: ${this.depths.join(", ") || "none"})`,
+      );
+    }
+    return deployment;
+  }
+
+  /** Client for the deployment at a depth (created once and cached). */
+  client(treeDepth: number): SemaphoreClient {
+    let client = this.clients.get(treeDepth);
+    if (!client) {
+      client = new SemaphoreClient({
+        address: this.deployment(treeDepth).address,
+        providerOrAccount: this.providerOrAccount,
+      });
+      this.clients.set(treeDepth, client);
+    }
+    return client;
+  }
+
+  /**
+   * Smallest registered depth that can hold `size` members. Use it when
+   * creating a group, with the group's expected maximum size.
+   *
+   * @throws UnsupportedTreeDepthError if no registered deployment is deep enough
+   */
+  selectDepth(size: number): number {
+    const needed = treeDepthForSize(size);
+    const depth = this.depths.find((d) => d >= needed);
+    if (depth === undefined) {
+      throw new UnsupportedTreeDepthError(
+        `No Semaphore deployment can hold ${size} members: needs depth ≥ ${needed}, ` +
+        `registered: ${this.depths.join(", ") || "none"}`,
+      );
+    }
+    return depth;
+  }
+
+  /**
+   * Encode a proof with the VK for its depth and send it to the deployment
+   * the group lives on.
+   *
+   * @param treeDepth - Depth of the deployment the group was created on
+   * @throws UnsupportedTreeDepthError if no deployment is registered for
+   *   `treeDepth`, or the proof was made for another depth
+   * @throws EncodingError if no encoder backend could produce calldata
+   */
+  async sendSignal(
+    treeDepth: number,
+    groupId: bigint,
+    proof: SemaphoreFullProof,
+    options: EncodeOptions = {},
+  ): Promise<SemaphoreTransaction> {
+    const client = this.client(treeDepth);
+    if (proof.merkleTreeDepth !== treeDepth) {
+      throw new UnsupportedTreeDepthError(
+        `Proof has tree depth ${proof.merkleTreeDepth}, but group ${groupId} lives on the ` +
+        `depth-${treeDepth} deployment: prove with { treeDepth: ${treeDepth} }`,
+      );
+    }
+    const calldata = await encodeForStarknet(proof, getVerificationKey(treeDepth), options);
+    return client.sendSignal(groupId, calldata);
+  }
+}
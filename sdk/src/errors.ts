@@ -0,0 +1,250 @@
+/**
+ * Typed SDK errors.
+ *
+ * Every error thrown on purpose by the SDK extends `SemaphoreError`. Contract
+ * reverts are mapped from the Cairo short-string panics in `semaphore.cairo`
+ * to one subclass per reason, so callers can branch with `instanceof`
+ * instead of matching on message text.
+ */
+
+import { shortString } from "starknet";
+
+export class SemaphoreError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The Semaphore contract reverted. `reason` is the decoded Cairo panic string. */
+export class ContractRevertError extends SemaphoreError {
+  readonly reason: string;
+
+  constructor(reason: string, options?: { cause?: unknown }) {
+    super(`Semaphore contract reverted: ${reason}`, options);
+    this.reason = reason;
+  }
+}
+
+/** 'Group does not exist' */
+export class GroupNotFoundError extends ContractRevertError {}
+
+/** 'Group already exists' */
+export class GroupAlreadyExistsError extends ContractRevertError {}
+
+/** 'Only admin can add members' / 'Only admin can remove members' / 'Only admin can transfer' */
+export class NotGroupAdminError extends ContractRevertError {}
+
+/** 'Group has no members' */
+export class GroupHasNoMembersError extends ContractRevertError {}
+
+/** 'Invalid proof' (verifier returned Err) / 'Not enough public inputs' */
+export class InvalidProofError extends ContractRevertError {}
+
+/** 'Merkle root mismatch' — the proof's root is not in the group's root history */
+export class MerkleRootMismatchError extends ContractRevertError {}
+
+/** 'Nullifier already used' — this identity already signalled in this scope */
+export class NullifierAlreadyUsedError extends ContractRevertError {}
+
+/** 'No pending admin transfer' */
+export class NoPendingAdminError extends ContractRevertError {}
+
+/** 'Only pending admin can accept' */
+export class NotPendingAdminError extends ContractRevertError {}
+
+/** No verification key / circuit is available for the requested tree depth. */
+export class UnsupportedTreeDepthError extends SemaphoreError {}
+
+/** A verification key does not have the expected Semaphore Groth16 shape. */
+export class InvalidVerificationKeyError extends SemaphoreError {}
+
+/** A circuit artifact (WASM or zkey) could not be fetched from its source. */
+export class ArtifactFetchError extends SemaphoreError {}
+
+/** A circuit artifact is not pinned in the manifest or its SHA-256 does not match. */
+export class ArtifactIntegrityError extends SemaphoreError {
+  readonly file: string;
+  readonly expected: string | null;
+  readonly actual: string;
+
+  constructor(file: string, expected: string | null, actual: string) {
+    super(
+      expected === null
+        ? `Circuit artifact ${file} has no pinned SHA-256 in the manifest (got ${actual})`
+        : `Circuit artifact ${file} failed its integrity check: expected SHA-256 ${expected}, got ${actual}`,
+    );
+    this.file = file;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/** The identity to prove with is not a member of the group. */
+export class NotAMemberError extends SemaphoreError {}
+
+/** A ProverPool job failed in its worker, or the pool was terminated before it finished. */
+export class ProverJobError extends SemaphoreError {}
+
+/** An encrypted identity or keystore is malformed, unsupported, or does not match its identity. */
+export class KeystoreError extends SemaphoreError {}
+
+/** An encrypted identity could not be decrypted: wrong password or corrupted ciphertext. */
+export class KeystorePasswordError extends KeystoreError {}
+
+/** An identity could not be derived from an account signature (e.g. the signer is not deterministic). */
+export class IdentityDerivationError extends SemaphoreError {}
+
+/** A mnemonic is malformed (unknown word, wrong length, bad checksum) or cannot hold the identity. */
+export class MnemonicError extends SemaphoreError {}
+
+/** A Shamir share is corrupted or malformed, or a set of shares cannot rebuild the identity. */
+export class IdentityShareError extends SemaphoreError {}
+
+/** A group snapshot is malformed, its root does not match its leaves, or two snapshots cannot be compared. */
+export class GroupSnapshotError extends SemaphoreError {}
+
+/** A group store change is invalid (duplicate or unknown member), or its backend holds corrupt data. */
+export class GroupStoreError extends SemaphoreError {}
+
+/** A root was never set for the group, or the group's history could not be replayed to it. */
+export class RootHistoryError extends SemaphoreError {}
+
+/** A value cannot be encoded as a signal message (too long, out of range, or not an option), or a message cannot be decoded. */
+export class MessageEncodingError extends SemaphoreError {}
+
+/** A scope is a test placeholder or does not match the scope expected for its context, or an epoch is out of range. */
+export class ScopeError extends SemaphoreError {}
+
+/** A proof bundle is malformed, of an unknown version, or its compact encoding is corrupt. */
+export class ProofBundleError extends SemaphoreError {}
+
+/** Garaga calldata is malformed (truncated, trailing felts, limbs out of range), of an implausible length, or does not match its proof. */
+export class CalldataError extends SemaphoreError {}
+
+/** A Semaphore event's keys or data are too short for its layout. */
+export class EventDecodingError extends SemaphoreError {}
+
+/** The SDK is set up wrongly: an unknown encoder backend, an empty Garaga command, a malformed artifact manifest, or a read-only client asked to send. */
+export class ConfigurationError extends SemaphoreError {}
+
+/** The Garaga verifier rejected a proof in a dry run: it returned Err, or panicked on the calldata. */
+export class VerifierRejectedError extends SemaphoreError {
+  readonly reason: string;
+  /** True if the verifier panicked (usually unparseable calldata) rather than returning Err */
+  readonly panicked: boolean;
+
+  constructor(reason: string, panicked: boolean, options?: { cause?: unknown }) {
+    super(`Garaga verifier ${panicked ? "panicked" : "rejected the proof"}: ${reason}`, options);
+    this.reason = reason;
+    this.panicked = panicked;
+  }
+}
+
+/** A value is not an integer in the range its field requires (BN254 scalar field, u256, felt252). */
+export class InvalidFieldElementError extends SemaphoreError {
+  readonly field: string;
+  readonly value: unknown;
+
+  constructor(field: string, value: unknown, problem: string) {
+    super(`${field} ${problem}: ${describeValue(value)}`);
+    this.field = field;
+    this.value = value;
+  }
+}
+
+/** A proof point is not on the BN254 curve (G1) or its twist (G2), or is the point at infinity. */
+export class InvalidCurvePointError extends SemaphoreError {
+  readonly field: string;
+
+  constructor(field: string, problem: string) {
+    super(`${field} ${problem}`);
+    this.field = field;
+  }
+}
+
+/** One backend's failure inside an EncodingError. */
+export interface EncoderFailure {
+  backend: string;
+  error: Error;
+}
+
+/** Thrown when no encoder backend could produce calldata. */
+export class EncodingError extends SemaphoreError {
+  readonly failures: EncoderFailure[];
+
+  constructor(failures: EncoderFailure[]) {
+    super(
+      `Garaga encoding failed with every backend:\n` +
+      failures.map((f) => `  - ${f.backend}: ${f.error.message}`).join("\n"),
+    );
+    this.failures = failures;
+  }
+}
+
+type RevertErrorClass = new (reason: string, options?: { cause?: unknown }) => ContractRevertError;
+
+/** Panic strings raised by `semaphore.cairo`, mapped to their error class. */
+export const REVERT_REASONS: ReadonlyArray<[string, RevertErrorClass]> = [
+  ["Group does not exist", GroupNotFoundError],
+  ["Group already exists", GroupAlreadyExistsError],
+  ["Only admin can add members", NotGroupAdminError],
+  ["Only admin can remove members", NotGroupAdminError],
+  ["Only admin can transfer", NotGroupAdminError],
+  ["Group has no members", GroupHasNoMembersError],
+  ["Invalid proof", InvalidProofError],
+  ["Not enough public inputs", InvalidProofError],
+  ["Merkle root mismatch", MerkleRootMismatchError],
+  ["Nullifier already used", NullifierAlreadyUsedError],
+  ["No pending admin transfer", NoPendingAdminError],
+  ["Only pending admin can accept", NotPendingAdminError],
+];
+
+/**
+ * Find a Semaphore revert reason in a starknet.js error, receipt revert
+ * reason, or any other value.
+ *
+ * Nodes report panics either as text (`'Nullifier already used'`) or as the
+ * hex-encoded short string, so both forms are matched.
+ *
+ * @returns The typed revert error, or null if no known reason is present
+ */
+export function decodeRevertReason(error: unknown, cause: unknown = error): ContractRevertError | null {
+  const text = errorText(error).toLowerCase();
+  for (const [reason, ErrorClass] of REVERT_REASONS) {
+    const hex = shortString.encodeShortString(reason).slice(2).toLowerCase();
+    if (text.includes(reason.toLowerCase()) || text.includes(hex)) {
+      return new ErrorClass(reason, { cause });
+    }
+  }
+  return null;
+}
+
+/**
+ * Map an error to its typed SDK equivalent. Errors that are already
+ * `SemaphoreError`s, and errors without a known revert reason, are returned
+ * unchanged.
+ */
+export function toSemaphoreError(error: unknown): unknown {
+  if (error instanceof SemaphoreError) return error;
+  return decodeRevertReason(error) ?? error;
+}
+
+function errorText(error: unknown): string {
+  if (typeof error === "string") return error;
+  if (error instanceof Error) {
+    const base = (error as any).baseError;
+    return [error.message, base ? JSON.stringify(base) : ""].join("\n");
+  }
+  try {
+    return JSON.stringify(error) ?? String(error);
+  } catch {
+    return String(error);
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string") return JSON.stringify(value.length > 80 ? value.slice(0, 77) + "..." : value);
+  return Array.isArray(value) ? `array of ${value.length}` : String(value);
+}
@@ -0,0 +1,284 @@
+/**
+ * Decoding of Semaphore contract events.
+ *
+ * Every event in `semaphore.cairo` has `group_id: u256` as its only `#[key]`
+ * field, so the raw layout is always:
+ *
+ *   keys: [selector, group_id.low, group_id.high]
+ *   data: the remaining fields in declaration order (u256 = low, high;
+ *         ContractAddress = one felt)
+ *
+ * `fetchSemaphoreEvents` pages through `starknet_getEvents` with continuation
+ * tokens and returns typed, chain-ordered events.
+ */
+
+import { addAddressPadding, hash, num, type ProviderInterface } from "starknet";
+import { u256FromFelts, u256ToFelts } from "./felt.js";
+import { EventDecodingError } from "./errors.js";
+
+export const SEMAPHORE_EVENT_NAMES = [
+  "GroupCreated",
+  "MemberAdded",
+  "MemberRemoved",
+  "SignalProcessed",
+  "AdminTransferProposed",
+  "AdminTransferAccepted",
+] as const;
+
+export type SemaphoreEventName = (typeof SEMAPHORE_EVENT_NAMES)[number];
+
+/** Where an event was emitted. */
+export interface EventLocation {
+  blockNumber: number;
+  transactionHash: string;
+  /**
+   * Index of the event within its transaction. Taken from the RPC response
+   * when the node provides it (spec 0.10+); otherwise the position among
+   * all of this contract's events in the same transaction, whatever the
+   * `names` / `groupId` filter.
+   */
+  eventIndex: number;
+}
+
+export interface GroupCreatedEvent extends EventLocation {
+  name: "GroupCreated";
+  groupId: bigint;
+  admin: string;
+}
+
+export interface MemberAddedEvent extends EventLocation {
+  name: "MemberAdded";
+  groupId: bigint;
+  identityCommitment: bigint;
+  index: bigint;
+  merkleRoot: bigint;
+}
+
+export interface MemberRemovedEvent extends EventLocation {
+  name: "MemberRemoved";
+  groupId: bigint;
+  identityCommitment: bigint;
+  merkleRoot: bigint;
+}
+
+export interface SignalProcessedEvent extends EventLocation {
+  name: "SignalProcessed";
+  groupId: bigint;
+  nullifier: bigint;
+  /** hashForCircuit(message) as returned by the verifier, not the raw message */
+  message: bigint;
+  /** hashForCircuit(scope) as returned by the verifier, not the raw scope */
+  scope: bigint;
+}
+
+export interface AdminTransferProposedEvent extends EventLocation {
+  name: "AdminTransferProposed";
+  groupId: bigint;
+  currentAdmin: string;
+  proposedAdmin: string;
+}
+
+export interface AdminTransferAcceptedEvent extends EventLocation {
+  name: "AdminTransferAccepted";
+  groupId: bigint;
+  newAdmin: string;
+}
+
+export type SemaphoreEvent =
+  | GroupCreatedEvent
+  | MemberAddedEvent
+  | MemberRemovedEvent
+  | SignalProcessedEvent
+  | AdminTransferProposedEvent
+  | AdminTransferAcceptedEvent;
+
+/** Raw event as returned by `starknet_getEvents`. */
+export interface RawSemaphoreEvent {
+  keys: string[];
+  data: string[];
+  block_number?: number;
+  transaction_hash: string;
+  event_index?: number;
+}
+
+export interface FetchSemaphoreEventsOptions {
+  /** Address of the Semaphore contract */
+  address: string;
+  /** Only return events for this group */
+  groupId?: bigint;
+  /** Only return these event types (default: all) */
+  names?: readonly SemaphoreEventName[];
+  /** First block to scan (default: 0). Use the deployment block to skip empty history. */
+  fromBlock?: number;
+  /** Last block to scan (default: "latest") */
+  toBlock?: number | "latest";
+  /** Page size passed to getEvents (default: 100) */
+  chunkSize?: number;
+}
+
+const SELECTORS = new Map<string, SemaphoreEventName>(
+  SEMAPHORE_EVENT_NAMES.map((name) => [num.toHex(hash.getSelectorFromName(name)), name]),
+);
+
+/** Selector (keys[0]) of a Semaphore event, as a 0x-prefixed hex string. */
+export function getEventSelector(name: SemaphoreEventName): string {
+  return num.toHex(hash.getSelectorFromName(name));
+}
+
+/**
+ * Decode a raw Semaphore event.
+ *
+ * @returns The typed event, or null if the selector is not a Semaphore event
+ * @throws EventDecodingError if the selector matches but keys/data are too short for its layout
+ */
+export function decodeSemaphoreEvent(
+  raw: RawSemaphoreEvent,
+  eventIndex: number = raw.event_index ?? 0,
+): SemaphoreEvent | null {
+  const name = raw.keys.length > 0 ? SELECTORS.get(num.toHex(raw.keys[0])) : undefined;
+  if (!name) return null;
+
+  const expectedData = DATA_LENGTHS[name];
+  if (raw.keys.length < 3 || raw.data.length < expectedData) {
+    throw new EventDecodingError(
+      `Malformed ${name} event in tx ${raw.transaction_hash}: ` +
+      `expected 3 keys and ${expectedData} data felts, got ${raw.keys.length} and ${raw.data.length}`,
+    );
+  }
+
+  const location: EventLocation = {
+    blockNumber: raw.block_number ?? -1,
+    transactionHash: raw.transaction_hash,
+    eventIndex,
+  };
+  const groupId = u256FromFelts(raw.keys[1], raw.keys[2]);
+  const d = raw.data;
+
+  switch (name) {
+    case "GroupCreated":
+      return { ...location, name, groupId, admin: toAddress(d[0]) };
+    case "MemberAdded":
+      return {
+        ...location,
+        name,
+        groupId,
+        identityCommitment: u256FromFelts(d[0], d[1]),
+        index: u256FromFelts(d[2], d[3]),
+        merkleRoot: u256FromFelts(d[4], d[5]),
+      };
+    case "MemberRemoved":
+      return {
+        ...location,
+        name,
+        groupId,
+        identityCommitment: u256FromFelts(d[0], d[1]),
+        merkleRoot: u256FromFelts(d[2], d[3]),
+      };
+    case "SignalProcessed":
+      return {
+        ...location,
+        name,
+        groupId,
+        nullifier: u256FromFelts(d[0], d[1]),
+        message: u256FromFelts(d[2], d[3]),
+        scope: u256FromFelts(d[4], d[5]),
+      };
+    case "AdminTransferProposed":
+      return {
+        ...location,
+        name,
+        groupId,
+        currentAdmin: toAddress(d[0]),
+        proposedAdmin: toAddress(d[1]),
+      };
+    case "AdminTransferAccepted":
+      return { ...location, name, groupId, newAdmin: toAddress(d[0]) };
+  }
+}
+
+/**
+ * Fetch and decode Semaphore events, following continuation tokens until the
+ * whole block range has been read.
+ *
+ * Events are returned in chain order. Filtering by event type and group id is
+ * done by the node through the `keys` filter. If the node does not report
+ * `event_index`, the range is read again without that filter and filtered
+ * here, so fallback indexes count every event of the contract.
+ *
+ * @example
+ * const added = await fetchSemaphoreEvents(provider, {
+ *   address: SEMAPHORE_ADDRESS,
+ *   groupId: 42n,
+ *   names: ["MemberAdded", "MemberRemoved"],
+ *   fromBlock: DEPLOY_BLOCK,
+ * });
+ */
+export async function fetchSemaphoreEvents(
+  provider: ProviderInterface,
+  options: FetchSemaphoreEventsOptions,
+): Promise<SemaphoreEvent[]> {
+  const names = options.names ?? SEMAPHORE_EVENT_NAMES;
+  const keys: string[][] = [names.map(getEventSelector)];
+  if (options.groupId !== undefined) {
+    const [low, high] = u256ToFelts(options.groupId);
+    keys.push([low], [high]);
+  }
+
+  const toBlock = options.toBlock ?? "latest";
+  const events: SemaphoreEvent[] = [];
+  const perTransaction = new Map<string, number>();
+  let filterOnNode = true;
+  let token: string | undefined;
+
+  for (;;) {
+    const page: any = await provider.getEvents({
+      from_block: { block_number: options.fromBlock ?? 0 },
+      to_block: toBlock === "latest" ? "latest" : { block_number: toBlock },
+      address: options.address,
+      keys: filterOnNode ? keys : undefined,
+      chunk_size: options.chunkSize ?? 100,
+      continuation_token: token,
+    });
+    const rawEvents = page.events as RawSemaphoreEvent[];
+
+    if (filterOnNode && rawEvents.some((raw) => raw.event_index === undefined)) {
+      // Counting positions needs every event of the contract: start over unfiltered.
+      filterOnNode = false;
+      events.length = 0;
+      perTransaction.clear();
+      token = undefined;
+      continue;
+    }
+
+    for (const raw of rawEvents) {
+      const ordinal = perTransaction.get(raw.transaction_hash) ?? 0;
+      perTransaction.set(raw.transaction_hash, ordinal + 1);
+      const event = decodeSemaphoreEvent(raw, raw.event_index ?? ordinal);
+      if (event && (filterOnNode || matchesFilter(event, names, options.groupId))) events.push(event);
+    }
+    token = page.continuation_token;
+    if (!token) return events;
+  }
+}
+
+/** Number of data felts for each event (u256 = 2 felts, ContractAddress = 1) */
+const DATA_LENGTHS: Record<SemaphoreEventName, number> = {
+  GroupCreated: 1,
+  MemberAdded: 6,
+  MemberRemoved: 4,
+  SignalProcessed: 6,
+  AdminTransferProposed: 2,
+  AdminTransferAccepted: 1,
+};
+
+function matchesFilter(
+  event: SemaphoreEvent,
+  names: readonly SemaphoreEventName[],
+  groupId: bigint | undefined,
+): boolean {
+  return names.includes(event.name) && (groupId === undefined || event.groupId === groupId);
+}
+
+function toAddress(felt: string): string {
+  return addAddressPadding(num.toHex(felt));
+}
@@ -0,0 +1,19 @@
+/**
+ * felt252 / u256 conversion helpers.
+ *
+ * Cairo serializes a u256 as two consecutive felt252 values: low 128 bits
+ * first, then high 128 bits. Events, calldata and call results all use this
+ * layout.
+ */
+
+const U128_MASK = (1n << 128n) - 1n;
+
+/** Join a (low, high) felt252 pair into a u256 bigint. */
+export function u256FromFelts(low: string | bigint, high: string | bigint): bigint {
+  return BigInt(low) + (BigInt(high) << 128n);
+}
+
+/** Split a u256 bigint into its (low, high) felt252 pair as hex strings. */
+export function u256ToFelts(value: bigint): [string, string] {
+  return ["0x" + (value & U128_MASK).toString(16), "0x" + (value >> 128n).toString(16)];
+}
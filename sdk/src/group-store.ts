@@ -0,0 +1,345 @@
+/**
+ * Persistent, incremental group storage.
+ *
+ * `new Group([...allCommitments])` rehashes the whole tree: O(n) Poseidon
+ * hashes per join. `GroupStore` keeps the tree nodes, so adding or removing
+ * a member only rehashes its path to the root (O(depth)). It also keeps a
+ * commitment → index map, so `indexOf` and Merkle proofs need no scan or
+ * recomputation.
+ *
+ * Persistence is pluggable through `GroupStoreBackend`:
+ * - `MemoryGroupBackend`: nothing is written
+ * - `JsonFileGroupBackend`: the tree nodes, rewritten atomically on each change
+ * - `AppendLogGroupBackend`: one line per change, with periodic checkpoints of
+ *   the nodes so that opening it only replays the changes since the last one
+ *
+ * Changes are applied one at a time, in call order. `beforeCommit` receives
+ * the new root before anything changes, so an admin can send `add_member` /
+ * `remove_member` with it and keep the store unchanged if the transaction
+ * fails.
+ */
+
+import { Group, type MerkleProof } from "@semaphore-protocol/group";
+import { poseidon2 } from "poseidon-lite/poseidon2";
+import { appendFile, mkdir, readFile, rename, truncate, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { GroupStoreError } from "./errors.js";
+import { assertScalarField } from "./validation.js";
+
+/** One persisted change to a group. */
+export type GroupChange =
+  | { op: "add"; commitment: bigint }
+  | { op: "remove"; index: number };
+
+export interface GroupStoreBackend {
+  /** The stored tree, or undefined if nothing is stored yet */
+  load(): Promise<Group | undefined>;
+  /** Persist a change that has just been applied to `group` */
+  save(change: GroupChange, group: Group): Promise<void>;
+}
+
+export interface GroupChangeOptions {
+  /**
+   * Called with the root the group will have after the change, before it is
+   * applied. If it throws, the store is left unchanged and the error is
+   * rethrown.
+   */
+  beforeCommit?: (root: bigint) => Promise<void> | void;
+}
+
+export class GroupStore {
+  private readonly group: Group;
+  private readonly backend: GroupStoreBackend;
+  private readonly indexes = new Map<bigint, number>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(group: Group, backend: GroupStoreBackend) {
+    this.group = group;
+    this.backend = backend;
+    group.members.forEach((leaf, index) => {
+      if (leaf !== 0n) this.indexes.set(leaf, index);
+    });
+  }
+
+  /** Open a store, loading the backend's tree (default: an empty in-memory group). */
+  static async open(backend: GroupStoreBackend = new MemoryGroupBackend()): Promise<GroupStore> {
+    return new GroupStore((await backend.load()) ?? new Group(), backend);
+  }
+
+  get root(): bigint {
+    return this.group.root;
+  }
+
+  /** Number of leaves, including removed (zeroed) ones */
+  get size(): number {
+    return this.group.size;
+  }
+
+  get depth(): number {
+    return this.group.depth;
+  }
+
+  /** Leaves in order; 0n where a member was removed. */
+  get members(): bigint[] {
+    return [...this.group.members];
+  }
+
+  /** Leaf index of a commitment, or -1. */
+  indexOf(commitment: bigint): number {
+    return this.indexes.get(commitment) ?? -1;
+  }
+
+  has(commitment: bigint): boolean {
+    return this.indexes.has(commitment);
+  }
+
+  /**
+   * Merkle proof for a member, by leaf index or commitment.
+   *
+   * @throws GroupStoreError if the commitment is not a member
+   */
+  merkleProof(member: number | bigint): MerkleProof {
+    const index = typeof member === "bigint" ? this.indexOf(member) : member;
+    if (index === -1) throw new GroupStoreError(`Commitment ${member} is not a member of the group`);
+    return this.group.generateMerkleProof(index);
+  }
+
+  /**
+   * A `Group` with the same tree, for `generateSemaphoreProof`. It is a copy
+   * that shares no state with the store.
+   */
+  toGroup(): Group {
+    return Group.import(this.group.export());
+  }
+
+  /** Root after appending a commitment, without changing the store. */
+  previewAdd(commitment: bigint): bigint {
+    return appendedRoot(this.group, commitment);
+  }
+
+  /** Root after zeroing a leaf, without changing the store. */
+  previewRemove(index: number): bigint {
+    this.checkIndex(index);
+    return zeroedRoot(this.group, index);
+  }
+
+  /**
+   * Append a member.
+   *
+   * @returns The new root
+   * @throws GroupStoreError if the commitment is 0 or already a member
+   * @throws InvalidFieldElementError if it is not in the BN254 scalar field
+   */
+  add(commitment: bigint, options: GroupChangeOptions = {}): Promise<bigint> {
+    return this.enqueue(async () => {
+      assertScalarField(commitment, "commitment");
+      if (commitment === 0n) throw new GroupStoreError("Cannot add commitment 0");
+      if (this.has(commitment)) {
+        throw new GroupStoreError(`Commitment ${commitment} is already a member (index ${this.indexOf(commitment)})`);
+      }
+      await options.beforeCommit?.(this.previewAdd(commitment));
+      this.group.addMember(commitment);
+      this.indexes.set(commitment, this.group.size - 1);
+      await this.backend.save({ op: "add", commitment }, this.group);
+      return this.group.root;
+    });
+  }
+
+  /**
+   * Remove a member by leaf index or commitment (its leaf becomes 0).
+   *
+   * @returns The new root
+   * @throws GroupStoreError if there is no such member
+   */
+  remove(member: number | bigint, options: GroupChangeOptions = {}): Promise<bigint> {
+    return this.enqueue(async () => {
+      const index = typeof member === "bigint" ? this.indexOf(member) : member;
+      if (index === -1) throw new GroupStoreError(`Commitment ${member} is not a member of the group`);
+      this.checkIndex(index);
+      const commitment = this.group.members[index];
+      if (commitment === 0n) throw new GroupStoreError(`Leaf ${index} was already removed`);
+
+      await options.beforeCommit?.(this.previewRemove(index));
+      this.group.removeMember(index);
+      this.indexes.delete(commitment);
+      await this.backend.save({ op: "remove", index }, this.group);
+      return this.group.root;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private checkIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.group.size) {
+      throw new GroupStoreError(`Leaf index ${index} is out of range (group size ${this.group.size})`);
+    }
+  }
+}
+
+/** Keeps the tree in memory only; reopening a store on the same backend resumes it. */
+export class MemoryGroupBackend implements GroupStoreBackend {
+  private group?: Group;
+
+  async load(): Promise<Group | undefined> {
+    return this.group && Group.import(this.group.export());
+  }
+
+  async save(_change: GroupChange, group: Group): Promise<void> {
+    this.group = group;
+  }
+}
+
+/**
+ * Stores the tree nodes as JSON in one file. Loading hashes nothing; each
+ * change rewrites the file (to a temporary file, then renamed over it).
+ */
+export class JsonFileGroupBackend implements GroupStoreBackend {
+  constructor(readonly path: string) {}
+
+  async load(): Promise<Group | undefined> {
+    const text = await readIfExists(this.path);
+    if (text === undefined) return undefined;
+    let file: any;
+    try {
+      file = JSON.parse(text);
+    } catch (err) {
+      throw new GroupStoreError(`${this.path} is not valid JSON`, { cause: err });
+    }
+    if (file?.version !== 1 || !Array.isArray(file.nodes)) {
+      throw new GroupStoreError(`${this.path} is not a version-1 group store file`);
+    }
+    return Group.import(JSON.stringify(file.nodes));
+  }
+
+  async save(_change: GroupChange, group: Group): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const partial = `${this.path}.${process.pid}.partial`;
+    await writeFile(partial, `{"version":1,"nodes":${group.export()}}\n`);
+    await rename(partial, this.path);
+  }
+}
+
+export interface AppendLogGroupBackendOptions {
+  /** Write a checkpoint of the tree nodes after this many changes (default: 1000) */
+  checkpointEvery?: number;
+}
+
+/**
+ * Appends one JSON line per change to a log file, plus a checkpoint line
+ * with the full tree nodes every `checkpointEvery` changes. Loading starts
+ * from the last checkpoint and replays the changes after it. A torn last
+ * line (from a crash mid-write) is ignored, and cut from the file so the
+ * next change is not appended to it.
+ */
+export class AppendLogGroupBackend implements GroupStoreBackend {
+  private readonly checkpointEvery: number;
+  private sinceCheckpoint = 0;
+
+  constructor(readonly path: string, options: AppendLogGroupBackendOptions = {}) {
+    this.checkpointEvery = options.checkpointEvery ?? 1000;
+    if (!Number.isInteger(this.checkpointEvery) || this.checkpointEvery < 1) {
+      throw new RangeError(`checkpointEvery must be a positive integer, got ${options.checkpointEvery}`);
+    }
+  }
+
+  async load(): Promise<Group | undefined> {
+    const text = await readIfExists(this.path);
+    if (text === undefined) return undefined;
+
+    const lines = text.split("\n");
+    // Only the last line can be incomplete; every complete line ends in "\n".
+    const complete = lines.slice(0, -1).filter((line) => line.length > 0);
+    const entries = complete.map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch (err) {
+        throw new GroupStoreError(`${this.path} line ${i + 1} is not valid JSON`, { cause: err });
+      }
+    });
+
+    let start = 0;
+    let group = new Group();
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].op === "checkpoint") {
+        group = Group.import(JSON.stringify(entries[i].nodes));
+        start = i + 1;
+        break;
+      }
+    }
+    for (const [i, entry] of entries.slice(start).entries()) {
+      if (entry.op === "add") {
+        group.addMember(BigInt(entry.commitment));
+      } else if (entry.op === "remove") {
+        group.removeMember(entry.index);
+      } else {
+        throw new GroupStoreError(`${this.path} line ${start + i + 1} has unknown op ${JSON.stringify(entry.op)}`);
+      }
+    }
+    // Cut a torn last line, so the next change starts on a line of its own.
+    const tail = lines[lines.length - 1];
+    if (tail.length > 0) {
+      await truncate(this.path, Buffer.byteLength(text) - Buffer.byteLength(tail));
+    }
+    this.sinceCheckpoint = entries.length - start;
+    return group;
+  }
+
+  async save(change: GroupChange, group: Group): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    let lines = change.op === "add"
+      ? `{"op":"add","commitment":"${change.commitment}"}\n`
+      : `{"op":"remove","index":${change.index}}\n`;
+    if (++this.sinceCheckpoint >= this.checkpointEvery) {
+      lines += `{"op":"checkpoint","nodes":${group.export()}}\n`;
+      this.sinceCheckpoint = 0;
+    }
+    await appendFile(this.path, lines);
+  }
+}
+
+/**
+ * Root after appending `leaf`, from the current last leaf's Merkle proof.
+ * LeanIMT hashes a new last leaf only with left siblings (a node without a
+ * right sibling moves up unhashed). At each level that left sibling is
+ * either the node on the last leaf's path or that node's own left sibling.
+ */
+function appendedRoot(group: Group, leaf: bigint): bigint {
+  const size = group.size;
+  if (size === 0) return leaf;
+  const proof = group.generateMerkleProof(size - 1);
+  let node = leaf;
+  let lastNode = proof.leaf;
+  let next = 0;
+  for (let level = 0; size >> level > 0; level++) {
+    const position = (size - 1) >> level;
+    // The last leaf's path has a (left) sibling exactly where its position is odd.
+    const sibling = position & 1 ? proof.siblings[next++] : undefined;
+    if ((size >> level) & 1) {
+      node = poseidon2([position === size >> level ? sibling! : lastNode, node]);
+    }
+    if (sibling !== undefined) lastNode = poseidon2([sibling, lastNode]);
+  }
+  return node;
+}
+
+/** Root after zeroing the leaf at `index`, by folding its Merkle proof from 0. */
+function zeroedRoot(group: Group, index: number): bigint {
+  const proof = group.generateMerkleProof(index);
+  return proof.siblings.reduce(
+    (node, sibling, i) => ((proof.index >> i) & 1 ? poseidon2([sibling, node]) : poseidon2([node, sibling])),
+    0n,
+  );
+}
+
+async function readIfExists(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return undefined;
+    throw err;
+  }
+}
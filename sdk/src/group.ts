@@ -1,12 +1,38 @@
 import { Group } from "@semaphore-protocol/group";
+import { MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "./vk.js";
+import { UnsupportedTreeDepthError } from "./errors.js";
+import { assertScalarField } from "./validation.js";
 
-/** Default tree depth matching Semaphore V4 and our contract constant */
+/**
+ * Default tree depth matching Semaphore V4 and our contract constant.
+ * The reference verifier deployment is compiled for this depth.
+ */
 export const DEFAULT_TREE_DEPTH = 20;
 
+/**
+ * Smallest circuit tree depth that can hold `size` members.
+ * Groups with 0 or 1 member still need a depth-1 circuit.
+ *
+ * @throws UnsupportedTreeDepthError if the group is larger than 2^32 members
+ */
+export function treeDepthForSize(size: number): number {
+  let depth = MIN_TREE_DEPTH;
+  while (depth <= MAX_TREE_DEPTH && 2 ** depth < size) depth++;
+  if (depth > MAX_TREE_DEPTH) {
+    throw new UnsupportedTreeDepthError(
+      `A group of ${size} members needs a tree deeper than the maximum depth ${MAX_TREE_DEPTH}`,
+    );
+  }
+  return depth;
+}
+
 /**
  * Create a new off-chain Semaphore group (BN254-Poseidon Merkle tree).
+ *
+ * @throws InvalidFieldElementError if a member is not in the BN254 scalar field
  */
 export function createGroup(members?: bigint[]): Group {
+  members?.forEach((member, i) => assertScalarField(member, `members[${i}]`));
   const group = new Group(members);
   return group;
 }
@@ -14,8 +40,11 @@ export function createGroup(members?: bigint[]): Group {
 /**
  * Add a member (identity commitment) to the group.
  * Returns the new Merkle root after insertion.
+ *
+ * @throws InvalidFieldElementError if the commitment is not in the BN254 scalar field
  */
 export function addMember(group: Group, commitment: bigint): bigint {
+  assertScalarField(commitment, "commitment");
   group.addMember(commitment);
   return group.root;
 }
@@ -23,8 +52,11 @@ export function addMember(group: Group, commitment: bigint): bigint {
 /**
  * Add multiple members to the group.
  * Returns the final Merkle root.
+ *
+ * @throws InvalidFieldElementError if a commitment is not in the BN254 scalar field
  */
 export function addMembers(group: Group, commitments: bigint[]): bigint {
+  commitments.forEach((commitment, i) => assertScalarField(commitment, `commitments[${i}]`));
   group.addMembers(commitments);
   return group.root;
 }
@@ -1,4 +1,15 @@
 import { Identity } from "@semaphore-protocol/identity";
+import { concat, getBytes, sha256, toBeHex, toUtf8Bytes } from "ethers";
+import {
+  stark,
+  typedData as snip12,
+  type AccountInterface,
+  type BigNumberish,
+  type Signature,
+  type SignerInterface,
+  type TypedData,
+} from "starknet";
+import { IdentityDerivationError } from "./errors.js";
 
 /**
  * Create a new Semaphore V4 identity (random private key).
@@ -22,3 +33,135 @@ export function createIdentityFromPrivateKey(privateKey: string): Identity {
 export function getCommitment(identity: Identity): bigint {
   return identity.commitment;
 }
+
+// ── Signature-derived identities ───────────────────────────────────────────
+//
+// A member can recreate the same identity on any device by signing a fixed
+// SNIP-12 message with their StarkNet account. The message names the app and
+// the group, so one account yields unrelated identities per app and per
+// group. The private key is SHA-256 over a domain tag, the account address,
+// the message hash and the signature.
+
+/** SNIP-12 domain name of the identity message */
+export const IDENTITY_DOMAIN_NAME = "Semaphore Identity";
+
+const IDENTITY_KEY_TAG = "semaphore-cairo/identity-from-signature/v1";
+const IDENTITY_PURPOSE =
+  "Sign to derive your anonymous Semaphore identity for this app and group. " +
+  "Anyone with this signature can act as you in the group: only sign it in the app named below.";
+
+/**
+ * An account that can sign SNIP-12 messages: an `Account` / `WalletAccount`,
+ * or a bare signer with the account address.
+ */
+export type IdentitySigner =
+  | Pick<AccountInterface, "address" | "signMessage">
+  | { address: string; signer: SignerInterface };
+
+export interface IdentityDerivationOptions {
+  /** Application name, e.g. "anonymous-voting". Part of the signed message. */
+  app: string;
+  /** Group the identity will join */
+  groupId: bigint | number | string;
+  /**
+   * Chain ID as a hex felt or short string (e.g. "SN_SEPOLIA").
+   * Default: the signer's `getChainId()`, if it has one.
+   */
+  chainId?: string;
+  /**
+   * Sign twice and check both signatures match. Use with signers that are
+   * not known to sign deterministically (hardware, multisig, MPC). Default: false
+   */
+  checkDeterministic?: boolean;
+}
+
+/**
+ * The SNIP-12 (revision 1) typed data an account signs to derive its identity.
+ */
+export function identityTypedData(options: { app: string; groupId: bigint | number | string; chainId: string }): TypedData {
+  if (options.app.trim().length === 0) throw new IdentityDerivationError("Identity derivation needs a non-empty app name");
+  const groupId = BigInt(options.groupId);
+  return {
+    types: {
+      StarknetDomain: [
+        { name: "name", type: "shortstring" },
+        { name: "version", type: "shortstring" },
+        { name: "chainId", type: "shortstring" },
+        { name: "revision", type: "shortstring" },
+      ],
+      SemaphoreIdentity: [
+        { name: "purpose", type: "string" },
+        { name: "app", type: "string" },
+        { name: "groupId", type: "u256" },
+      ],
+    },
+    primaryType: "SemaphoreIdentity",
+    domain: { name: IDENTITY_DOMAIN_NAME, version: "1", chainId: options.chainId, revision: "1" },
+    message: {
+      purpose: IDENTITY_PURPOSE,
+      app: options.app,
+      groupId: { low: toBeHex(groupId & ((1n << 128n) - 1n)), high: toBeHex(groupId >> 128n) },
+    },
+  };
+}
+
+/**
+ * Derive a Semaphore identity from an account's signature over
+ * `identityTypedData`. The wallet shows the purpose, app and group to the
+ * user before signing.
+ *
+ * The same account, app, group and chain always give the same identity, as
+ * long as the signer signs deterministically (RFC 6979, as starknet.js and
+ * the common wallets do).
+ *
+ * @throws IdentityDerivationError if the chain ID is unknown, the signature is
+ *   empty, or `checkDeterministic` finds two different signatures
+ */
+export async function deriveIdentityFromAccount(
+  account: IdentitySigner,
+  options: IdentityDerivationOptions,
+): Promise<Identity> {
+  const chainId = options.chainId ?? await getChainId(account);
+  const data = identityTypedData({ app: options.app, groupId: options.groupId, chainId });
+  const sign = (): Promise<Signature> => "signMessage" in account
+    ? account.signMessage(data)
+    : account.signer.signMessage(data, account.address);
+
+  const signature = await sign();
+  if (options.checkDeterministic) {
+    const again = stark.formatSignature(await sign());
+    if (again.join() !== stark.formatSignature(signature).join()) {
+      throw new IdentityDerivationError(
+        "The signer produced two different signatures for the identity message; it cannot be used to derive an identity",
+      );
+    }
+  }
+  return identityFromSignature(data, account.address, signature);
+}
+
+/**
+ * Derive the identity from a signature obtained elsewhere (e.g. a wallet
+ * RPC call over `identityTypedData`). Does not check the signature.
+ *
+ * @throws IdentityDerivationError if the signature is empty
+ */
+export function identityFromSignature(data: TypedData, accountAddress: BigNumberish, signature: Signature): Identity {
+  const felts = stark.formatSignature(signature);
+  if (felts.length === 0) throw new IdentityDerivationError("Cannot derive an identity from an empty signature");
+  const messageHash = snip12.getMessageHash(data, accountAddress);
+  const seed = concat([
+    toUtf8Bytes(IDENTITY_KEY_TAG),
+    toBeHex(BigInt(accountAddress), 32),
+    toBeHex(BigInt(messageHash), 32),
+    ...felts.map((felt) => toBeHex(BigInt(felt), 32)),
+  ]);
+  return new Identity(getBytes(sha256(seed)));
+}
+
+async function getChainId(account: IdentitySigner): Promise<string> {
+  const provider = account as Partial<Pick<AccountInterface, "getChainId">>;
+  if (typeof provider.getChainId !== "function") {
+    throw new IdentityDerivationError("Pass options.chainId: the signer has no getChainId()");
+  }
+  return provider.getChainId();
+}
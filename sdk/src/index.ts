@@ -1,20 +1,290 @@
 // Identity
-export { createIdentity, createIdentityFromPrivateKey, getCommitment } from "./identity.js";
+export {
+  createIdentity,
+  createIdentityFromPrivateKey,
+  getCommitment,
+  identityTypedData,
+  deriveIdentityFromAccount,
+  identityFromSignature,
+  IDENTITY_DOMAIN_NAME,
+} from "./identity.js";
+export {
+  encryptIdentity,
+  decryptIdentity,
+  exportIdentity,
+  importIdentity,
+  parseEncryptedIdentity,
+  IdentityKeystore,
+  KEYSTORE_VERSION,
+} from "./keystore.js";
+export {
+  identityToMnemonic,
+  identityFromMnemonic,
+  generateMnemonic,
+  deriveIdentityFromMnemonic,
+  isValidMnemonic,
+  normalizeMnemonic,
+} from "./mnemonic.js";
+export {
+  splitIdentity,
+  combineIdentityShares,
+  serializeIdentityShare,
+  parseIdentityShare,
+  IDENTITY_SHARE_VERSION,
+} from "./shamir.js";
 
 // Group
-export { createGroup, addMember, addMembers, removeMember, getRoot, getMerkleProof, DEFAULT_TREE_DEPTH } from "./group.js";
+export { createGroup, addMember, addMembers, removeMember, getRoot, getMerkleProof, DEFAULT_TREE_DEPTH, treeDepthForSize } from "./group.js";
+
+// Group snapshots
+export {
+  createGroupSnapshot,
+  importGroupSnapshot,
+  parseGroupSnapshot,
+  serializeGroupSnapshot,
+  hashGroupSnapshot,
+  diffGroupSnapshots,
+  GROUP_SNAPSHOT_VERSION,
+} from "./snapshot.js";
+
+// Group storage
+export { GroupStore, MemoryGroupBackend, JsonFileGroupBackend, AppendLogGroupBackend } from "./group-store.js";
 
 // Proof
-export { generateSemaphoreProof, verifySemaphoreProof, extractVerificationKey } from "./proof.js";
+export { generateSemaphoreProof, verifySemaphoreProof, extractVerificationKey, resolveTreeDepth } from "./proof.js";
+
+// Proof bundles
+export {
+  createProofBundle,
+  parseProofBundle,
+  serializeProofBundle,
+  encodeProofBundle,
+  decodeProofBundle,
+  PROOF_BUNDLE_VERSION,
+  PROOF_BUNDLE_SCHEMA,
+} from "./proof-bundle.js";
+
+// Proof generation pool
+export { ProverPool } from "./prover-pool.js";
+
+// Verification keys
+export {
+  getVerificationKey,
+  registerVerificationKey,
+  hasVerificationKey,
+  validateVerificationKey,
+  MIN_TREE_DEPTH,
+  MAX_TREE_DEPTH,
+} from "./vk.js";
+
+// Circuit artifacts
+export {
+  CircuitArtifactCache,
+  getDefaultArtifactCache,
+  loadArtifactManifest,
+  bundledManifestPath,
+  artifactFileName,
+  sha256File,
+  SNARK_ARTIFACTS_VERSION,
+  DEFAULT_ARTIFACTS_SOURCE,
+} from "./artifacts.js";
 
 // Calldata
-export { encodeForStarknet, validateCalldataLength } from "./calldata.js";
+export {
+  encodeForStarknet,
+  validateCalldataLength,
+  hashForCircuit,
+  createWasmEncoder,
+  createPythonEncoder,
+} from "./calldata.js";
+export { decodeCalldata, compareCalldataToProof, assertCalldataMatchesProof } from "./decoder.js";
+export { dryRunVerifier } from "./verifier.js";
+
+// Contract client
+export { SemaphoreClient } from "./client.js";
+export { SEMAPHORE_ABI } from "./abi.js";
+export { SemaphoreRouter } from "./deployments.js";
+
+// Root history
+export { RootHistoryTracker, DEFAULT_ROOT_HISTORY_SIZE } from "./root-history.js";
+
+// Events
+export { fetchSemaphoreEvents, decodeSemaphoreEvent, getEventSelector, SEMAPHORE_EVENT_NAMES } from "./events.js";
+
+// History replay
+export { replayGroupHistory, rebuildGroupFromChain } from "./rebuild.js";
+
+// Errors
+export {
+  SemaphoreError,
+  ContractRevertError,
+  GroupNotFoundError,
+  GroupAlreadyExistsError,
+  NotGroupAdminError,
+  GroupHasNoMembersError,
+  InvalidProofError,
+  MerkleRootMismatchError,
+  NullifierAlreadyUsedError,
+  NoPendingAdminError,
+  NotPendingAdminError,
+  EncodingError,
+  UnsupportedTreeDepthError,
+  InvalidVerificationKeyError,
+  ArtifactFetchError,
+  ArtifactIntegrityError,
+  ProverJobError,
+  KeystoreError,
+  KeystorePasswordError,
+  IdentityDerivationError,
+  MnemonicError,
+  IdentityShareError,
+  GroupSnapshotError,
+  GroupStoreError,
+  RootHistoryError,
+  MessageEncodingError,
+  ScopeError,
+  ProofBundleError,
+  NotAMemberError,
+  CalldataError,
+  EventDecodingError,
+  ConfigurationError,
+  InvalidFieldElementError,
+  InvalidCurvePointError,
+  VerifierRejectedError,
+  REVERT_REASONS,
+  decodeRevertReason,
+  toSemaphoreError,
+} from "./errors.js";
+
+// Validation
+export {
+  assertScalarField,
+  assertU256,
+  assertFelt252,
+  assertG1Point,
+  assertG2Point,
+  assertProofPoints,
+  assertValidProof,
+  chainIdToFelt,
+  BN254_SCALAR_FIELD,
+  BN254_BASE_FIELD,
+  FELT252_PRIME,
+  U256_MAX,
+} from "./validation.js";
 
 // Scope
-export { computeScope, assertProductionScope } from "./scope.js";
+export {
+  computeScope,
+  deriveScope,
+  epochAt,
+  epochScope,
+  currentEpochScopes,
+  assertProductionScope,
+} from "./scope.js";
+
+// Nullifiers
+export { computeNullifier, checkNullifier, checkSignalled } from "./nullifier.js";
+
+// Messages
+export {
+  MessageDictionary,
+  uintMessage,
+  textMessage,
+  bytesMessage,
+  addressMessage,
+  enumMessage,
+} from "./message.js";
 
 // Types
 export type {
   SemaphoreProofResult,
   SemaphoreFullProof,
+  ProofProgress,
+  ProgressOptions,
 } from "./types.js";
+export type { ProofOptions, CircuitArtifacts } from "./proof.js";
+export type { ProofBundle, ProofBundleOptions } from "./proof-bundle.js";
+export type {
+  ProverPoolOptions,
+  ProverJobOptions,
+  ProverJobTiming,
+  ProverJobResult,
+} from "./prover-pool.js";
+export type { IdentitySigner, IdentityDerivationOptions } from "./identity.js";
+export type { IdentityShare, SplitIdentityOptions, CombineIdentitySharesOptions } from "./shamir.js";
+export type {
+  EncryptedIdentity,
+  ExportIdentityOptions,
+  IdentityKeystoreJson,
+  KeystoreKdf,
+  KeystoreCrypto,
+  KeystoreKdfParams,
+  ScryptParams,
+  Pbkdf2Params,
+} from "./keystore.js";
+export type {
+  GroupSnapshot,
+  GroupSnapshotOptions,
+  GroupSnapshotChange,
+  GroupSnapshotDiff,
+} from "./snapshot.js";
+export type {
+  GroupChange,
+  GroupStoreBackend,
+  GroupChangeOptions,
+  AppendLogGroupBackendOptions,
+} from "./group-store.js";
+export type { VerificationKey } from "./vk.js";
+export type {
+  SnarkArtifactPaths,
+  ArtifactManifest,
+  CircuitArtifactCacheOptions,
+  PrefetchedArtifact,
+} from "./artifacts.js";
+export type {
+  GaragaEncoder,
+  EncoderBackendName,
+  PythonEncoderOptions,
+  EncodeOptions,
+} from "./calldata.js";
+export type { EncoderFailure } from "./errors.js";
+export type {
+  DecodedCalldata,
+  CalldataSection,
+  CalldataMismatch,
+  G1Point,
+  G2Point,
+} from "./decoder.js";
+export type {
+  SemaphoreClientOptions,
+  SemaphoreTransaction,
+  SignalPreflight,
+  SignalPublicInputs,
+  SignalExecutionResources,
+  PreflightOptions,
+} from "./client.js";
+export type { VerifierDryRun, VerifierDryRunOptions } from "./verifier.js";
+export type { SemaphoreDeployment, SemaphoreRouterOptions } from "./deployments.js";
+export type {
+  SemaphoreEvent,
+  SemaphoreEventName,
+  EventLocation,
+  GroupCreatedEvent,
+  MemberAddedEvent,
+  MemberRemovedEvent,
+  SignalProcessedEvent,
+  AdminTransferProposedEvent,
+  AdminTransferAcceptedEvent,
+  RawSemaphoreEvent,
+  FetchSemaphoreEventsOptions,
+} from "./events.js";
+export type { RootHistoryTrackerOptions, RootStatus } from "./root-history.js";
+export type { CheckNullifierOptions, NullifierStatus } from "./nullifier.js";
+export type { MessageCodec, DecodedMessage, MessageTally } from "./message.js";
+export type { ScopeParams, EpochSchedule, EpochScope } from "./scope.js";
+export type {
+  MembershipEvent,
+  GroupDivergence,
+  RebuildGroupResult,
+  RebuildGroupFromChainOptions,
+} from "./rebuild.js";
@@ -0,0 +1,414 @@
+/**
+ * Password-encrypted identity keystore.
+ *
+ * An identity's private key is all it takes to signal as that member, so it
+ * should never be stored or moved in plaintext. `exportIdentity` encrypts it
+ * into a versioned JSON document modelled on Ethereum's V3 keystore:
+ * a password-derived key (scrypt or PBKDF2-SHA256) and AES-256-GCM.
+ * The identity commitment stays in clear, so a keystore can be matched to a
+ * group without the password. It is authenticated with the ciphertext, along
+ * with the id, group and label, as AES-GCM associated data: editing any of
+ * them makes decryption fail.
+ *
+ * Only Web Crypto and ethers are used, so the same code runs in Node and the
+ * browser.
+ *
+ * `IdentityKeystore` holds several encrypted identities, one per group label,
+ * and serializes to a single JSON document for backup.
+ */
+
+import { Identity } from "@semaphore-protocol/identity";
+import { getBytes, hexlify, scrypt } from "ethers";
+import { KeystoreError, KeystorePasswordError } from "./errors.js";
+
+/** Format version written by this SDK */
+export const KEYSTORE_VERSION = 1;
+
+/** Defaults: scrypt as in ethers' keystores, PBKDF2 per current OWASP guidance */
+const DEFAULT_SCRYPT = { n: 1 << 17, r: 8, p: 1 };
+const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export type KeystoreKdf = "scrypt" | "pbkdf2";
+
+export interface ScryptParams {
+  /** CPU/memory cost, a power of two */
+  n: number;
+  r: number;
+  p: number;
+  dklen: 32;
+  /** Hex, no 0x prefix */
+  salt: string;
+}
+
+export interface Pbkdf2Params {
+  /** Iteration count */
+  c: number;
+  prf: "hmac-sha256";
+  dklen: 32;
+  /** Hex, no 0x prefix */
+  salt: string;
+}
+
+export type KeystoreKdfParams =
+  | { kdf: "scrypt"; kdfparams: ScryptParams }
+  | { kdf: "pbkdf2"; kdfparams: Pbkdf2Params };
+
+export type KeystoreCrypto = {
+  cipher: "aes-256-gcm";
+  cipherparams: { iv: string };
+  /** Hex, no 0x prefix; the 16-byte GCM tag is appended */
+  ciphertext: string;
+} & KeystoreKdfParams;
+
+/** One encrypted identity (the JSON written by `exportIdentity`). */
+export interface EncryptedIdentity {
+  version: 1;
+  /** Random UUID */
+  id: string;
+  /** Identity commitment, decimal */
+  commitment: string;
+  /** Group the identity is a member of, if labelled */
+  group?: string;
+  /** Free-form label, e.g. an app or account name */
+  label?: string;
+  crypto: KeystoreCrypto;
+}
+
+export interface ExportIdentityOptions {
+  /** Key derivation function (default: "scrypt") */
+  kdf?: KeystoreKdf;
+  /** scrypt cost parameters (default: n = 2^17, r = 8, p = 1) */
+  scrypt?: { n?: number; r?: number; p?: number };
+  /** PBKDF2 iteration count (default: 600000) */
+  pbkdf2Iterations?: number;
+  group?: string | bigint;
+  label?: string;
+}
+
+/** Several encrypted identities, as serialized by `IdentityKeystore`. */
+export interface IdentityKeystoreJson {
+  version: 1;
+  identities: EncryptedIdentity[];
+}
+
+/**
+ * Encrypt an identity's private key with a password.
+ *
+ * @throws KeystoreError if the password is empty or the KDF parameters are out of range
+ */
+export async function encryptIdentity(
+  identity: Identity,
+  password: string,
+  options: ExportIdentityOptions = {},
+): Promise<EncryptedIdentity> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const kdf = options.kdf ?? "scrypt";
+
+  let params: KeystoreKdfParams;
+  if (kdf === "scrypt") {
+    params = { kdf, kdfparams: { ...DEFAULT_SCRYPT, ...options.scrypt, dklen: KEY_LENGTH, salt: toHex(salt) } };
+  } else if (kdf === "pbkdf2") {
+    params = {
+      kdf,
+      kdfparams: { c: options.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS, prf: "hmac-sha256", dklen: KEY_LENGTH, salt: toHex(salt) },
+    };
+  } else {
+    throw new KeystoreError(`Unsupported keystore KDF "${kdf}": expected "scrypt" or "pbkdf2"`);
+  }
+  checkKdfParams(params);
+
+  const key = await deriveKey(password, params);
+  const plaintext = new TextEncoder().encode(identity.export());
+  const header: Omit<EncryptedIdentity, "crypto"> = {
+    version: KEYSTORE_VERSION,
+    id: crypto.randomUUID(),
+    commitment: identity.commitment.toString(),
+    ...(options.group !== undefined && { group: options.group.toString() }),
+    ...(options.label !== undefined && { label: options.label }),
+  };
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: associatedData(header) },
+    key,
+    plaintext,
+  ));
+
+  return {
+    ...header,
+    crypto: { cipher: "aes-256-gcm", cipherparams: { iv: toHex(iv) }, ciphertext: toHex(ciphertext), ...params } as KeystoreCrypto,
+  };
+}
+
+/**
+ * Decrypt an encrypted identity.
+ *
+ * @throws KeystoreError if the document is malformed or decrypts to a different commitment
+ * @throws KeystorePasswordError if the password is wrong, or the ciphertext or
+ *   any authenticated field (id, commitment, group, label) was altered
+ */
+export async function decryptIdentity(encrypted: EncryptedIdentity | string, password: string): Promise<Identity> {
+  const entry = parseEncryptedIdentity(encrypted);
+  const key = await deriveKey(password, entry.crypto);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromHex(entry.crypto.cipherparams.iv), additionalData: associatedData(entry) },
+      key,
+      fromHex(entry.crypto.ciphertext),
+    );
+  } catch (err) {
+    throw new KeystorePasswordError("Could not decrypt identity: wrong password, or the keystore was altered", { cause: err });
+  }
+
+  let identity: Identity;
+  try {
+    identity = Identity.import(new TextDecoder().decode(plaintext));
+  } catch (err) {
+    throw new KeystoreError("Decrypted keystore does not hold a valid identity", { cause: err });
+  }
+  if (identity.commitment.toString() !== entry.commitment) {
+    throw new KeystoreError(
+      `Decrypted identity has commitment ${identity.commitment}, but the keystore records ${entry.commitment}`,
+    );
+  }
+  return identity;
+}
+
+/** Encrypt an identity and serialize it to JSON, for backup or transfer. */
+export async function exportIdentity(
+  identity: Identity,
+  password: string,
+  options: ExportIdentityOptions = {},
+): Promise<string> {
+  return JSON.stringify(await encryptIdentity(identity, password, options), null, 2);
+}
+
+/** Restore an identity from `exportIdentity` output. See `decryptIdentity`. */
+export function importIdentity(json: string, password: string): Promise<Identity> {
+  return decryptIdentity(json, password);
+}
+
+/**
+ * Parse and validate an encrypted identity without decrypting it.
+ *
+ * @throws KeystoreError if it is not a supported, well-formed version-1 document
+ */
+export function parseEncryptedIdentity(input: unknown): EncryptedIdentity {
+  const value = typeof input === "string" ? parseJson(input) : input;
+  if (!isObject(value)) throw new KeystoreError("Encrypted identity must be a JSON object");
+  if (value.version !== KEYSTORE_VERSION) {
+    throw new KeystoreError(`Unsupported keystore version ${JSON.stringify(value.version)}: expected ${KEYSTORE_VERSION}`);
+  }
+  if (typeof value.id !== "string") throw new KeystoreError("Keystore id must be a string");
+  if (typeof value.commitment !== "string" || !/^[0-9]+$/.test(value.commitment)) {
+    throw new KeystoreError("Keystore commitment must be a decimal string");
+  }
+  for (const field of ["group", "label"] as const) {
+    if (value[field] !== undefined && typeof value[field] !== "string") {
+      throw new KeystoreError(`Keystore ${field} must be a string`);
+    }
+  }
+
+  const c = value.crypto;
+  if (!isObject(c)) throw new KeystoreError("Keystore is missing its crypto section");
+  if (c.cipher !== "aes-256-gcm") {
+    throw new KeystoreError(`Unsupported keystore cipher ${JSON.stringify(c.cipher)}: expected "aes-256-gcm"`);
+  }
+  if (!isObject(c.cipherparams) || !isHex(c.cipherparams.iv, IV_LENGTH)) {
+    throw new KeystoreError(`Keystore IV must be ${IV_LENGTH} bytes of hex`);
+  }
+  if (!isHex(c.ciphertext) || c.ciphertext.length <= TAG_LENGTH * 2) {
+    throw new KeystoreError("Keystore ciphertext must be hex and include the GCM tag");
+  }
+  if (!isObject(c.kdfparams)) throw new KeystoreError("Keystore is missing its KDF parameters");
+  checkKdfParams(c as KeystoreKdfParams);
+
+  return value as unknown as EncryptedIdentity;
+}
+
+/**
+ * Encrypted identities labelled by group.
+ *
+ * Each entry is encrypted on its own (with its own salt, and possibly its
+ * own password), so unlocking one identity never exposes the others.
+ */
+export class IdentityKeystore {
+  private readonly entries = new Map<string, EncryptedIdentity>();
+
+  constructor(identities: EncryptedIdentity[] = []) {
+    for (const entry of identities) this.set(entry);
+  }
+
+  /** Group labels with a stored identity, in insertion order. */
+  get groups(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(group: string | bigint): boolean {
+    return this.entries.has(group.toString());
+  }
+
+  /** The encrypted entry for a group, if any. */
+  get(group: string | bigint): EncryptedIdentity | undefined {
+    return this.entries.get(group.toString());
+  }
+
+  /** Encrypt an identity and store it under a group, replacing any previous entry. */
+  async add(
+    group: string | bigint,
+    identity: Identity,
+    password: string,
+    options: Omit<ExportIdentityOptions, "group"> = {},
+  ): Promise<EncryptedIdentity> {
+    const entry = await encryptIdentity(identity, password, { ...options, group });
+    this.entries.set(entry.group!, entry);
+    return entry;
+  }
+
+  /**
+   * Store an already-encrypted identity under its group label.
+   *
+   * @throws KeystoreError if the entry is malformed or has no group
+   */
+  set(entry: EncryptedIdentity): void {
+    const parsed = parseEncryptedIdentity(entry);
+    if (parsed.group === undefined) throw new KeystoreError(`Keystore entry ${parsed.id} has no group label`);
+    this.entries.set(parsed.group, parsed);
+  }
+
+  remove(group: string | bigint): boolean {
+    return this.entries.delete(group.toString());
+  }
+
+  /**
+   * Decrypt the identity stored for a group.
+   *
+   * @throws KeystoreError if no identity is stored for the group
+   * @throws KeystorePasswordError if the password is wrong
+   */
+  async unlock(group: string | bigint, password: string): Promise<Identity> {
+    const entry = this.get(group);
+    if (!entry) throw new KeystoreError(`No identity stored for group ${group}`);
+    return decryptIdentity(entry, password);
+  }
+
+  toJSON(): IdentityKeystoreJson {
+    return { version: KEYSTORE_VERSION, identities: [...this.entries.values()] };
+  }
+
+  /** Serialize every entry; the output is safe to back up as is. */
+  serialize(): string {
+    return JSON.stringify(this.toJSON(), null, 2);
+  }
+
+  /**
+   * Load a keystore written by `serialize`.
+   *
+   * @throws KeystoreError if the document or any entry is malformed, or two entries share a group
+   */
+  static parse(input: IdentityKeystoreJson | string): IdentityKeystore {
+    const value = typeof input === "string" ? parseJson(input) : input;
+    if (!isObject(value) || value.version !== KEYSTORE_VERSION || !Array.isArray(value.identities)) {
+      throw new KeystoreError(`Identity keystore must be a version-${KEYSTORE_VERSION} object with an identities array`);
+    }
+    const keystore = new IdentityKeystore();
+    for (const entry of value.identities) {
+      const parsed = parseEncryptedIdentity(entry);
+      if (parsed.group !== undefined && keystore.has(parsed.group)) {
+        throw new KeystoreError(`Identity keystore has two entries for group ${parsed.group}`);
+      }
+      keystore.set(parsed);
+    }
+    return keystore;
+  }
+}
+
+async function deriveKey(password: string, params: KeystoreKdfParams): Promise<CryptoKey> {
+  if (password.length === 0) throw new KeystoreError("Keystore password must not be empty");
+  const secret = new TextEncoder().encode(password.normalize("NFKC"));
+  const salt = fromHex(params.kdfparams.salt);
+
+  let raw: Uint8Array;
+  if (params.kdf === "scrypt") {
+    const { n, r, p, dklen } = params.kdfparams;
+    raw = getBytes(await scrypt(secret, salt, n, r, p, dklen));
+  } else {
+    const base = await crypto.subtle.importKey("raw", secret, "PBKDF2", false, ["deriveBits"]);
+    raw = new Uint8Array(await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations: params.kdfparams.c },
+      base,
+      params.kdfparams.dklen * 8,
+    ));
+  }
+  return crypto.subtle.importKey("raw", new Uint8Array(raw), "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/** The clear fields of an entry, as bound to its ciphertext. */
+function associatedData(entry: Omit<EncryptedIdentity, "crypto">): Uint8Array<ArrayBuffer> {
+  const fields = [entry.version, entry.id, entry.commitment, entry.group ?? null, entry.label ?? null];
+  return new Uint8Array(new TextEncoder().encode(JSON.stringify(fields)));
+}
+
+/**
+ * Bounds keep a hostile keystore from demanding gigabytes of memory or an
+ * hour of CPU, and a weak one from being written.
+ */
+function checkKdfParams(params: { kdf: unknown; kdfparams: Record<string, any> }): void {
+  const p = params.kdfparams;
+  if (p.dklen !== KEY_LENGTH) throw new KeystoreError(`Keystore dklen must be ${KEY_LENGTH}`);
+  if (!isHex(p.salt) || p.salt.length < 32) throw new KeystoreError("Keystore salt must be at least 16 bytes of hex");
+
+  if (params.kdf === "scrypt") {
+    const valid = Number.isInteger(p.n) && p.n >= 1 << 14 && p.n <= 1 << 20 && (p.n & (p.n - 1)) === 0 &&
+      Number.isInteger(p.r) && p.r >= 1 && p.r <= 32 &&
+      Number.isInteger(p.p) && p.p >= 1 && p.p <= 16;
+    if (!valid) {
+      throw new KeystoreError(`Invalid scrypt parameters n=${p.n} r=${p.r} p=${p.p}: need n a power of two in 2^14–2^20, r 1–32, p 1–16`);
+    }
+  } else if (params.kdf === "pbkdf2") {
+    if (p.prf !== "hmac-sha256") throw new KeystoreError(`Unsupported PBKDF2 PRF ${JSON.stringify(p.prf)}`);
+    if (!Number.isInteger(p.c) || p.c < 100_000 || p.c > 10_000_000) {
+      throw new KeystoreError(`Invalid PBKDF2 iteration count ${p.c}: expected 100000–10000000`);
+    }
+  } else {
+    throw new KeystoreError(`Unsupported keystore KDF ${JSON.stringify(params.kdf)}: expected "scrypt" or "pbkdf2"`);
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new KeystoreError("Keystore is not valid JSON", { cause: err });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isHex(value: unknown, bytes?: number): value is string {
+  return typeof value === "string" && value.length % 2 === 0 && /^[0-9a-f]*$/.test(value) &&
+    (bytes === undefined || value.length === bytes * 2);
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return hexlify(bytes).slice(2);
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(getBytes("0x" + hex));
+}
@@ -0,0 +1,251 @@
+/**
+ * Signal message codecs and hashed-message lookup.
+ *
+ * The circuit takes `hashForCircuit(message)`, and that hash is what
+ * `SignalProcessed.message` records, so the message itself never appears
+ * on-chain. Apps with a known set of messages (vote options, ratings, …)
+ * can still read their signals back: `MessageDictionary` hashes every option
+ * up front and maps event hashes back to options.
+ *
+ * Codecs turn app values into the bigint message and back. Every message is
+ * checked to be in 0 ≤ m < 2^256, the range `hashForCircuit` hashes:
+ * - `textMessage`: UTF-8 text up to 31 bytes, encoded as `generateSemaphoreProof`
+ *   encodes a text message (bytes32); numeric text is rejected
+ * - `bytesMessage(length)`: exactly `length` bytes (1–32), big-endian
+ * - `addressMessage`: a StarkNet address (< 2^251)
+ * - `enumMessage(options)`: an option's index in `options`
+ * - `uintMessage`: the bigint itself
+ */
+
+import { decodeBytes32String, encodeBytes32String, getBytes, toBeHex, toBigInt, type BytesLike } from "ethers";
+import { hashForCircuit } from "./calldata.js";
+import type { SignalProcessedEvent } from "./events.js";
+import { MessageEncodingError } from "./errors.js";
+
+/** Messages are hashed as 32 bytes, so they must be below 2^256. */
+const MESSAGE_LIMIT = 1n << 256n;
+/** StarkNet addresses are below 2^251. */
+const ADDRESS_LIMIT = 1n << 251n;
+
+/** Converts app values to signal messages and back. */
+export interface MessageCodec<T> {
+  readonly name: string;
+  /** @throws MessageEncodingError if the value cannot be encoded */
+  encode(value: T): bigint;
+  /** @throws MessageEncodingError if the message is not an encoding of this codec */
+  decode(message: bigint): T;
+}
+
+/** Result of looking up a `SignalProcessed` message hash. */
+export type DecodedMessage<T> =
+  | { known: true; option: T; message: bigint; hash: bigint }
+  | { known: false; hash: bigint };
+
+export interface MessageTally<T> {
+  /** Signals per option, in option order (options without signals count 0) */
+  counts: Map<T, number>;
+  /** Signals whose message hash is not one of the options */
+  unknown: SignalProcessedEvent[];
+}
+
+// ── Codecs ─────────────────────────────────────────────────────────────────
+
+/** The message as a bigint, checked to be in 0 ≤ m < 2^256. */
+export const uintMessage: MessageCodec<bigint> = {
+  name: "uint",
+  encode: (value) => checkMessage(value),
+  decode: (message) => checkMessage(message),
+};
+
+/**
+ * UTF-8 text up to 31 bytes, as bytes32 — the same message as passing the
+ * text to generateSemaphoreProof. Text that reads as a number ("42", "0x2a")
+ * is rejected, since generateSemaphoreProof would take it as that number.
+ */
+export const textMessage: MessageCodec<string> = {
+  name: "text",
+  encode(value) {
+    if (readsAsNumber(value)) {
+      throw new MessageEncodingError(
+        `Text message ${JSON.stringify(value)} reads as a number, which generateSemaphoreProof would not encode as text; use uintMessage`,
+      );
+    }
+    try {
+      return toBigInt(encodeBytes32String(value));
+    } catch (err) {
+      throw new MessageEncodingError(`Text message must be at most 31 UTF-8 bytes: ${JSON.stringify(value)}`, { cause: err });
+    }
+  },
+  decode(message) {
+    try {
+      return decodeBytes32String(toBeHex(checkMessage(message), 32));
+    } catch (err) {
+      throw new MessageEncodingError(`Message ${message} is not a bytes32 text message`, { cause: err });
+    }
+  },
+};
+
+/** Exactly `length` bytes (1–32), as a big-endian integer. */
+export function bytesMessage(length: number): MessageCodec<Uint8Array> {
+  if (!Number.isInteger(length) || length < 1 || length > 32) {
+    throw new RangeError(`Byte message length must be an integer in 1–32, got ${length}`);
+  }
+  const limit = 1n << BigInt(length * 8);
+  return {
+    name: `bytes${length}`,
+    encode(value: BytesLike) {
+      const bytes = getBytes(value);
+      if (bytes.length !== length) {
+        throw new MessageEncodingError(`Byte message must be ${length} bytes, got ${bytes.length}`);
+      }
+      return toBigInt(bytes);
+    },
+    decode(message) {
+      if (checkMessage(message) >= limit) {
+        throw new MessageEncodingError(`Message ${message} does not fit in ${length} bytes`);
+      }
+      return getBytes(toBeHex(message, length));
+    },
+  };
+}
+
+/** A StarkNet address; decodes to 0x + 64 lowercase hex digits. */
+export const addressMessage: MessageCodec<string> = {
+  name: "address",
+  encode(value) {
+    let address: bigint;
+    try {
+      address = toBigInt(value);
+    } catch (err) {
+      throw new MessageEncodingError(`Not a StarkNet address: ${JSON.stringify(value)}`, { cause: err });
+    }
+    return checkAddress(address);
+  },
+  decode(message) {
+    return "0x" + checkAddress(message).toString(16).padStart(64, "0");
+  },
+};
+
+/**
+ * One of a fixed list of options, encoded as its index: with
+ * `enumMessage(["no", "yes"])`, "no" is 0 and "yes" is 1.
+ */
+export function enumMessage<const T>(options: readonly T[]): MessageCodec<T> {
+  if (options.length === 0) throw new RangeError("An enum message needs at least one option");
+  if (new Set(options).size !== options.length) throw new RangeError("Enum message options must be distinct");
+  return {
+    name: "enum",
+    encode(value) {
+      const index = options.indexOf(value);
+      if (index === -1) throw new MessageEncodingError(`${JSON.stringify(value)} is not one of the enum options`);
+      return BigInt(index);
+    },
+    decode(message) {
+      if (message < 0n || message >= BigInt(options.length)) {
+        throw new MessageEncodingError(`Message ${message} is not an enum option index (0–${options.length - 1})`);
+      }
+      return options[Number(message)];
+    },
+  };
+}
+
+// ── Dictionary ─────────────────────────────────────────────────────────────
+
+/**
+ * The hashed messages of a known set of options, for decoding
+ * `SignalProcessed` events.
+ *
+ * @example
+ * const votes = new MessageDictionary(["no", "yes"], enumMessage(["no", "yes"]));
+ * const proof = await generateSemaphoreProof(identity, group, votes.message("yes"), scope);
+ * const { counts, unknown } = votes.tally(signalEvents);
+ */
+export class MessageDictionary<T> {
+  readonly codec: MessageCodec<T>;
+  private readonly messages = new Map<T, bigint>();
+  private readonly byHash = new Map<bigint, T>();
+
+  /**
+   * @throws MessageEncodingError if an option cannot be encoded, or two options have the same message
+   */
+  constructor(options: Iterable<T>, codec: MessageCodec<T>) {
+    this.codec = codec;
+    for (const option of options) {
+      const message = codec.encode(option);
+      const hash = BigInt(hashForCircuit(message));
+      const other = this.byHash.get(hash);
+      if (other !== undefined) {
+        throw new MessageEncodingError(`Options ${String(other)} and ${String(option)} encode to the same message ${message}`);
+      }
+      this.messages.set(option, message);
+      this.byHash.set(hash, option);
+    }
+  }
+
+  get options(): T[] {
+    return [...this.messages.keys()];
+  }
+
+  /**
+   * The message to prove with for an option.
+   *
+   * @throws MessageEncodingError if it is not one of the options
+   */
+  message(option: T): bigint {
+    // Encode rather than look up, so equal byte arrays match.
+    const message = this.codec.encode(option);
+    if (!this.byHash.has(BigInt(hashForCircuit(message)))) {
+      throw new MessageEncodingError(`${String(option)} is not in the message dictionary`);
+    }
+    return message;
+  }
+
+  /** `hashForCircuit(message(option))`, as recorded by `SignalProcessed`. */
+  hash(option: T): bigint {
+    return BigInt(hashForCircuit(this.message(option)));
+  }
+
+  /** Look up a message hash (e.g. `SignalProcessedEvent.message`). */
+  decode(hash: bigint): DecodedMessage<T> {
+    const option = this.byHash.get(hash);
+    return option === undefined
+      ? { known: false, hash }
+      : { known: true, option, message: this.messages.get(option)!, hash };
+  }
+
+  /** Count signals per option. Signals with any other message are returned in `unknown`, not counted. */
+  tally(events: Iterable<SignalProcessedEvent>): MessageTally<T> {
+    const counts = new Map<T, number>(this.options.map((option) => [option, 0]));
+    const unknown: SignalProcessedEvent[] = [];
+    for (const event of events) {
+      const option = this.byHash.get(event.message);
+      if (option === undefined) unknown.push(event);
+      else counts.set(option, counts.get(option)! + 1);
+    }
+    return { counts, unknown };
+  }
+}
+
+function checkMessage(message: bigint): bigint {
+  if (message < 0n || message >= MESSAGE_LIMIT) {
+    throw new MessageEncodingError(`Message ${message} is out of range: must be in 0 ≤ m < 2^256`);
+  }
+  return message;
+}
+
+function checkAddress(address: bigint): bigint {
+  if (address < 0n || address >= ADDRESS_LIMIT) {
+    throw new MessageEncodingError(`Address ${address} is out of range: must be in 0 ≤ a < 2^251`);
+  }
+  return address;
+}
+
+/** Whether toCircuitBigInt would read the text as a number rather than bytes32 text */
+function readsAsNumber(text: string): boolean {
+  try {
+    toBigInt(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Mnemonic (BIP-39 word list) backup for Semaphore identities.
+ *
+ * Two uses, which give different identities from the same words:
+ * - `identityToMnemonic` / `identityFromMnemonic` write one identity's 32-byte
+ *   private key as 24 words and read it back. This is a paper backup of an
+ *   identity that already exists.
+ * - `deriveIdentityFromMnemonic` treats the words as a seed (as BIP-39
+ *   wallets do) and derives identity number `index` from it. One backup then
+ *   covers every identity derived from it.
+ *
+ * Words come from the BIP-39 English list, and the last word carries a checksum.
+ * Case and extra whitespace are ignored when reading.
+ */
+
+import { Identity } from "@semaphore-protocol/identity";
+import { Mnemonic, computeHmac, concat, getBytes, toBeHex, toUtf8Bytes } from "ethers";
+import { MnemonicError } from "./errors.js";
+
+const DERIVATION_TAG = "semaphore-cairo/identity-from-mnemonic/v1";
+const PRIVATE_KEY_LENGTH = 32;
+
+/**
+ * Encode an identity's private key as 24 words.
+ *
+ * @throws MnemonicError if the identity was created from a text private key
+ *   (e.g. `new Identity("my secret")`) rather than 32 random bytes; back
+ *   those up with `exportIdentity` instead
+ */
+export function identityToMnemonic(identity: Identity): string {
+  const key = identity.privateKey;
+  if (typeof key === "string" || key.length !== PRIVATE_KEY_LENGTH) {
+    throw new MnemonicError(
+      `Only identities with a ${PRIVATE_KEY_LENGTH}-byte private key can be written as a mnemonic; ` +
+      `this one was created from a text key`,
+    );
+  }
+  return Mnemonic.entropyToPhrase(key);
+}
+
+/**
+ * Restore the identity written by `identityToMnemonic`.
+ *
+ * @throws MnemonicError if a word is unknown, the checksum fails, or the
+ *   phrase is not 24 words
+ */
+export function identityFromMnemonic(phrase: string): Identity {
+  const entropy = getBytes(toEntropy(phrase));
+  if (entropy.length !== PRIVATE_KEY_LENGTH) {
+    throw new MnemonicError(
+      `An identity mnemonic has 24 words, got ${entropy.length * 3 / 4}; ` +
+      `use deriveIdentityFromMnemonic for a seed mnemonic`,
+    );
+  }
+  return new Identity(entropy);
+}
+
+/** A new random mnemonic to derive identities from (12 or 24 words, default 24). */
+export function generateMnemonic(words: 12 | 24 = 24): string {
+  if (words !== 12 && words !== 24) throw new MnemonicError(`A mnemonic has 12 or 24 words, not ${words}`);
+  return Mnemonic.entropyToPhrase(crypto.getRandomValues(new Uint8Array(words === 12 ? 16 : 32)));
+}
+
+/**
+ * Derive identity number `index` from a BIP-39 mnemonic of any standard
+ * length. The key is HMAC-SHA256 keyed by the BIP-39 seed (mnemonic plus
+ * optional passphrase) over a domain tag and the index.
+ *
+ * @throws MnemonicError if the mnemonic is invalid or the index is not an integer in 0–2^32-1
+ */
+export function deriveIdentityFromMnemonic(phrase: string, index = 0, passphrase = ""): Identity {
+  if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+    throw new MnemonicError(`Identity index must be an integer in 0–4294967295, got ${index}`);
+  }
+  toEntropy(phrase);
+  const seed = Mnemonic.fromPhrase(normalizeMnemonic(phrase), passphrase).computeSeed();
+  const key = computeHmac("sha256", seed, concat([toUtf8Bytes(DERIVATION_TAG), toBeHex(index, 4)]));
+  return new Identity(getBytes(key));
+}
+
+/** Whether a phrase is a valid BIP-39 English mnemonic (words and checksum). */
+export function isValidMnemonic(phrase: string): boolean {
+  return Mnemonic.isValidMnemonic(normalizeMnemonic(phrase));
+}
+
+/** Lowercase, single-spaced words. */
+export function normalizeMnemonic(phrase: string): string {
+  return phrase.normalize("NFKD").trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+function toEntropy(phrase: string): string {
+  try {
+    return Mnemonic.phraseToEntropy(normalizeMnemonic(phrase));
+  } catch (err: any) {
+    throw new MnemonicError(`Invalid mnemonic: ${err?.shortMessage ?? err?.message ?? err}`, { cause: err });
+  }
+}
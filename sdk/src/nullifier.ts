@@ -0,0 +1,118 @@
+/**
+ * Nullifier precomputation and precheck.
+ *
+ * A Semaphore V4 nullifier depends only on the identity and the scope:
+ *
+ *   nullifier = Poseidon(hashForCircuit(scope), identity.secretScalar)
+ *
+ * so it can be computed before any proof is made. The contract keeps one
+ * global set of used nullifiers, and `send_signal` reverts with 'Nullifier
+ * already used' when a proof reuses one. `checkNullifier` asks
+ * `is_nullifier_used`, and on request looks for the `SignalProcessed` event
+ * that used it, so an app can answer "already signalled" without proving.
+ */
+
+import type { Identity } from "@semaphore-protocol/identity";
+import { poseidon2 } from "poseidon-lite/poseidon2";
+import type { ProviderInterface } from "starknet";
+import { hashForCircuit } from "./calldata.js";
+import { SemaphoreClient } from "./client.js";
+import { ConfigurationError } from "./errors.js";
+import { fetchSemaphoreEvents, type SignalProcessedEvent } from "./events.js";
+import { toCircuitBigInt } from "./proof.js";
+
+export interface CheckNullifierOptions {
+  /** Address of the Semaphore contract */
+  address: string;
+  /**
+   * Only look for signals in this group. Nullifiers are global, so a
+   * nullifier used in another group is still reported by `usedOnChain`.
+   */
+  groupId?: bigint;
+  /**
+   * Also scan `SignalProcessed` events for the signal that used the
+   * nullifier (default: false, only `is_nullifier_used` is called).
+   * Requires `fromBlock`.
+   */
+  events?: boolean;
+  /** First block to scan, e.g. the contract's deployment block. Required with `events` */
+  fromBlock?: number;
+  /** Last block to scan (default: "latest") */
+  toBlock?: number | "latest";
+}
+
+export interface NullifierStatus {
+  nullifier: bigint;
+  /** Whether a proof with this nullifier would be rejected */
+  used: boolean;
+  /** The contract's `is_nullifier_used` */
+  usedOnChain: boolean;
+  /** The signal that used the nullifier, or null if events were not scanned or none was found */
+  signal: SignalProcessedEvent | null;
+}
+
+/**
+ * The nullifier a proof by `identity` in `scope` will have, computed as the
+ * circuit does. `scope` is converted as in `generateSemaphoreProof`.
+ */
+export function computeNullifier(identity: Identity, scope: bigint | number | string): bigint {
+  const scopeHash = BigInt(hashForCircuit(toCircuitBigInt(scope)));
+  return poseidon2([scopeHash, identity.secretScalar]);
+}
+
+/**
+ * Check whether a nullifier has been used, by the contract's
+ * `is_nullifier_used` and, with `events: true`, by its `SignalProcessed`
+ * events from `fromBlock` on.
+ *
+ * @throws ConfigurationError if `events` is set without `fromBlock`
+ */
+export async function checkNullifier(
+  provider: ProviderInterface,
+  nullifier: bigint,
+  options: CheckNullifierOptions,
+): Promise<NullifierStatus> {
+  if (options.events && options.fromBlock === undefined) {
+    throw new ConfigurationError("checkNullifier needs fromBlock to scan SignalProcessed events");
+  }
+  const client = new SemaphoreClient({ address: options.address, providerOrAccount: provider });
+  const [usedOnChain, signal] = await Promise.all([
+    client.isNullifierUsed(nullifier),
+    options.events ? findSignal(provider, nullifier, options) : null,
+  ]);
+  return { nullifier, used: usedOnChain || signal !== null, usedOnChain, signal };
+}
+
+/**
+ * Whether `identity` has already signalled in `scope`: `computeNullifier`
+ * followed by `checkNullifier`. Call it before `generateSemaphoreProof`.
+ *
+ * @example
+ * const options = { address, groupId, events: true, fromBlock: deploymentBlock };
+ * const { used, signal } = await checkSignalled(provider, identity, scope, options);
+ * if (used) console.log(`Already signalled in tx ${signal?.transactionHash}`);
+ */
+export async function checkSignalled(
+  provider: ProviderInterface,
+  identity: Identity,
+  scope: bigint | number | string,
+  options: CheckNullifierOptions,
+): Promise<NullifierStatus> {
+  return checkNullifier(provider, computeNullifier(identity, scope), options);
+}
+
+async function findSignal(
+  provider: ProviderInterface,
+  nullifier: bigint,
+  options: CheckNullifierOptions,
+): Promise<SignalProcessedEvent | null> {
+  const events = await fetchSemaphoreEvents(provider, {
+    address: options.address,
+    groupId: options.groupId,
+    names: ["SignalProcessed"],
+    fromBlock: options.fromBlock,
+    toBlock: options.toBlock,
+  });
+  const signal = (events as SignalProcessedEvent[]).find((event) => event.nullifier === nullifier);
+  return signal ?? null;
+}
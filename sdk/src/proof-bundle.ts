@@ -0,0 +1,268 @@
+/**
+ * Versioned proof bundles.
+ *
+ * A bundle is a `SemaphoreFullProof` plus the group it is for: chain ID,
+ * contract address and group ID. It is what a prover hands to whoever
+ * submits `send_signal`. It has two lossless forms:
+ * - JSON, described by `PROOF_BUNDLE_SCHEMA`, with every number a decimal string
+ * - compact: binary, base64url-encoded, for URLs and QR codes. A depth-20
+ *   proof takes about 440 bytes, or 590 characters
+ *
+ * `parseProofBundle` and `decodeProofBundle` validate everything: a
+ * malformed bundle is rejected with a `ProofBundleError` naming the field,
+ * not deep inside Garaga encoding.
+ *
+ * Compact layout (version 1): the version byte, the tree depth byte, then
+ * chainId, contractAddress, groupId, merkleTreeRoot, nullifier, message,
+ * scope and the 8 points, each as one length byte followed by that many
+ * big-endian bytes (no leading zeros).
+ */
+
+import { decodeBase64, encodeBase64, toBeArray, toBigInt } from "ethers";
+import type { SemaphoreFullProof } from "./types.js";
+import { MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "./vk.js";
+import { InvalidCurvePointError, InvalidFieldElementError, ProofBundleError } from "./errors.js";
+import { assertFelt252, assertValidProof, chainIdToFelt } from "./validation.js";
+
+/** Bundle format version written by this SDK */
+export const PROOF_BUNDLE_VERSION = 1;
+
+/** Values in a bundle are at most 256 bits. */
+const VALUE_LIMIT = 1n << 256n;
+const POINT_COUNT = 8;
+
+export interface ProofBundle {
+  version: 1;
+  /** Chain ID as a 0x-prefixed hex felt (e.g. SN_SEPOLIA = 0x534e5f5345504f4c4941) */
+  chainId: string;
+  /** Semaphore contract address, 0x + 64 lowercase hex digits */
+  contractAddress: string;
+  /** Group ID, decimal */
+  groupId: string;
+  proof: SemaphoreFullProof;
+}
+
+export interface ProofBundleOptions {
+  chainId: string | bigint;
+  contractAddress: string | bigint;
+  groupId: bigint | number | string;
+}
+
+const DECIMAL_PATTERN = "^(0|[1-9][0-9]*)$";
+
+/** JSON Schema (draft 2020-12) of the JSON form of a bundle. */
+export const PROOF_BUNDLE_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "urn:semaphore-cairo:proof-bundle:v1",
+  title: "Semaphore proof bundle",
+  type: "object",
+  additionalProperties: false,
+  required: ["version", "chainId", "contractAddress", "groupId", "proof"],
+  properties: {
+    version: { const: PROOF_BUNDLE_VERSION },
+    chainId: { type: "string", pattern: "^0x(0|[1-9a-f][0-9a-f]*)$" },
+    contractAddress: { type: "string", pattern: "^0x[0-9a-f]{64}$" },
+    groupId: { type: "string", pattern: DECIMAL_PATTERN },
+    proof: {
+      type: "object",
+      additionalProperties: false,
+      required: ["merkleTreeDepth", "merkleTreeRoot", "nullifier", "message", "scope", "points"],
+      properties: {
+        merkleTreeDepth: { type: "integer", minimum: MIN_TREE_DEPTH, maximum: MAX_TREE_DEPTH },
+        merkleTreeRoot: { type: "string", pattern: DECIMAL_PATTERN },
+        nullifier: { type: "string", pattern: DECIMAL_PATTERN },
+        message: { type: "string", pattern: DECIMAL_PATTERN },
+        scope: { type: "string", pattern: DECIMAL_PATTERN },
+        points: {
+          type: "array",
+          minItems: POINT_COUNT,
+          maxItems: POINT_COUNT,
+          items: { type: "string", pattern: DECIMAL_PATTERN },
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Bundle a proof with the group it is for.
+ *
+ * @throws ProofBundleError if a field is malformed or out of range
+ */
+export function createProofBundle(proof: SemaphoreFullProof, options: ProofBundleOptions): ProofBundle {
+  const chainId = convertOption("chainId", "a hex felt or a short string", () => chainIdToFelt(options.chainId));
+  const contractAddress = convertOption("contractAddress", "an integer", () => toBigInt(options.contractAddress));
+  const groupId = convertOption("groupId", "an integer", () => toBigInt(options.groupId));
+  return parseProofBundle({
+    version: PROOF_BUNDLE_VERSION,
+    chainId: "0x" + chainId.toString(16),
+    contractAddress: "0x" + contractAddress.toString(16).padStart(64, "0"),
+    groupId: groupId.toString(),
+    proof: {
+      merkleTreeDepth: proof.merkleTreeDepth,
+      merkleTreeRoot: String(proof.merkleTreeRoot),
+      nullifier: String(proof.nullifier),
+      message: String(proof.message),
+      scope: String(proof.scope),
+      points: proof.points.map(String),
+    },
+  });
+}
+
+/**
+ * Validate a bundle's JSON form (a string or an already parsed value)
+ * against the schema. Numbers must be decimal strings below 2^256, and
+ * unknown fields are rejected. Beyond the schema, the chain ID and contract
+ * address must be felt252s, the root and nullifier in the BN254 scalar
+ * field and the points on the curve.
+ *
+ * @throws ProofBundleError naming the first invalid field
+ */
+export function parseProofBundle(input: unknown): ProofBundle {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (err) {
+      throw new ProofBundleError("Proof bundle is not valid JSON", { cause: err });
+    }
+  }
+  const b = checkObject(value, "bundle", ["version", "chainId", "contractAddress", "groupId", "proof"]);
+  if (b.version !== PROOF_BUNDLE_VERSION) {
+    throw new ProofBundleError(`Unsupported proof bundle version ${JSON.stringify(b.version)}: expected ${PROOF_BUNDLE_VERSION}`);
+  }
+  if (typeof b.chainId !== "string" || !/^0x(0|[1-9a-f][0-9a-f]*)$/.test(b.chainId)) {
+    throw new ProofBundleError("chainId must be a lowercase 0x-prefixed hex felt without leading zeros");
+  }
+  checkFelt(b.chainId, "chainId");
+  if (typeof b.contractAddress !== "string" || !/^0x[0-9a-f]{64}$/.test(b.contractAddress)) {
+    throw new ProofBundleError("contractAddress must be 0x followed by 64 lowercase hex digits");
+  }
+  checkFelt(b.contractAddress, "contractAddress");
+  checkDecimal(b.groupId, "groupId");
+
+  const p = checkObject(b.proof, "proof", ["merkleTreeDepth", "merkleTreeRoot", "nullifier", "message", "scope", "points"]);
+  const depth = p.merkleTreeDepth;
+  if (typeof depth !== "number" || !Number.isInteger(depth) || depth < MIN_TREE_DEPTH || depth > MAX_TREE_DEPTH) {
+    throw new ProofBundleError(`proof.merkleTreeDepth must be an integer in ${MIN_TREE_DEPTH}–${MAX_TREE_DEPTH}`);
+  }
+  for (const field of ["merkleTreeRoot", "nullifier", "message", "scope"] as const) {
+    checkDecimal(p[field], `proof.${field}`);
+  }
+  if (!Array.isArray(p.points) || p.points.length !== POINT_COUNT) {
+    throw new ProofBundleError(`proof.points must be an array of ${POINT_COUNT} decimal strings`);
+  }
+  p.points.forEach((point, i) => checkDecimal(point, `proof.points[${i}]`));
+  try {
+    assertValidProof(p as unknown as SemaphoreFullProof);
+  } catch (err) {
+    if (err instanceof InvalidFieldElementError || err instanceof InvalidCurvePointError) {
+      throw new ProofBundleError(`proof.${err.message}`, { cause: err });
+    }
+    throw err;
+  }
+  return value as ProofBundle;
+}
+
+/** JSON form of a bundle. */
+export function serializeProofBundle(bundle: ProofBundle): string {
+  return JSON.stringify(parseProofBundle(bundle));
+}
+
+/** Compact form of a bundle: binary, base64url-encoded without padding. */
+export function encodeProofBundle(bundle: ProofBundle): string {
+  const { chainId, contractAddress, groupId, proof } = parseProofBundle(bundle);
+  const values = [chainId, contractAddress, groupId, proof.merkleTreeRoot, proof.nullifier, proof.message, proof.scope, ...proof.points];
+  const bytes: number[] = [PROOF_BUNDLE_VERSION, proof.merkleTreeDepth];
+  for (const value of values) {
+    const encoded = BigInt(value) === 0n ? new Uint8Array() : toBeArray(BigInt(value));
+    bytes.push(encoded.length, ...encoded);
+  }
+  return encodeBase64(Uint8Array.from(bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Read a bundle's compact form.
+ *
+ * @throws ProofBundleError if it is not base64url, is truncated or has
+ *   trailing bytes, or holds an invalid bundle
+ */
+export function decodeProofBundle(text: string): ProofBundle {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new ProofBundleError("Compact proof bundle must be base64url without padding");
+  const padded = text.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - (text.length % 4)) % 4);
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase64(padded);
+  } catch (err) {
+    throw new ProofBundleError("Compact proof bundle is not valid base64url", { cause: err });
+  }
+
+  if (bytes.length < 2) throw new ProofBundleError("Compact proof bundle is truncated");
+  if (bytes[0] !== PROOF_BUNDLE_VERSION) {
+    throw new ProofBundleError(`Unsupported proof bundle version ${bytes[0]}: expected ${PROOF_BUNDLE_VERSION}`);
+  }
+  let offset = 2;
+  const read = (): bigint => {
+    const length = bytes[offset];
+    if (length === undefined || length > 32 || offset + 1 + length > bytes.length) {
+      throw new ProofBundleError("Compact proof bundle is truncated or has an oversized value");
+    }
+    const slice = bytes.subarray(offset + 1, offset + 1 + length);
+    if (length > 0 && slice[0] === 0) throw new ProofBundleError("Compact proof bundle has a value with leading zero bytes");
+    offset += 1 + length;
+    return length === 0 ? 0n : toBigInt(slice);
+  };
+
+  const [chainId, contractAddress, groupId, merkleTreeRoot, nullifier, message, scope] = Array.from({ length: 7 }, read);
+  const points = Array.from({ length: POINT_COUNT }, () => read().toString());
+  if (offset !== bytes.length) throw new ProofBundleError("Compact proof bundle has trailing bytes");
+
+  return parseProofBundle({
+    version: PROOF_BUNDLE_VERSION,
+    chainId: "0x" + chainId.toString(16),
+    contractAddress: "0x" + contractAddress.toString(16).padStart(64, "0"),
+    groupId: groupId.toString(),
+    proof: {
+      merkleTreeDepth: bytes[1],
+      merkleTreeRoot: merkleTreeRoot.toString(),
+      nullifier: nullifier.toString(),
+      message: message.toString(),
+      scope: scope.toString(),
+      points,
+    },
+  });
+}
+
+function convertOption(name: string, expected: string, convert: () => bigint): bigint {
+  try {
+    return convert();
+  } catch (err) {
+    throw new ProofBundleError(`${name} must be ${expected}`, { cause: err });
+  }
+}
+
+function checkObject(value: unknown, name: string, fields: string[]): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ProofBundleError(`${name} must be a JSON object`);
+  }
+  const missing = fields.filter((field) => !(field in value));
+  if (missing.length > 0) throw new ProofBundleError(`Missing ${name} field(s): ${missing.join(", ")}`);
+  const unknown = Object.keys(value).filter((key) => !fields.includes(key));
+  if (unknown.length > 0) throw new ProofBundleError(`Unknown ${name} field(s): ${unknown.join(", ")}`);
+  return value as Record<string, unknown>;
+}
+
+function checkDecimal(value: unknown, name: string): void {
+  if (typeof value !== "string" || !new RegExp(DECIMAL_PATTERN).test(value) || BigInt(value) >= VALUE_LIMIT) {
+    throw new ProofBundleError(`${name} must be a decimal string below 2^256`);
+  }
+}
+
+function checkFelt(value: string, name: string): void {
+  try {
+    assertFelt252(value, name);
+  } catch (err) {
+    if (err instanceof InvalidFieldElementError) throw new ProofBundleError(err.message, { cause: err });
+    throw err;
+  }
+}
@@ -1,33 +1,165 @@
-import { generateProof, verifyProof } from "@semaphore-protocol/proof";
+import { verifyProof, packGroth16Proof } from "@semaphore-protocol/proof";
 import type { Identity } from "@semaphore-protocol/identity";
-import type { Group } from "@semaphore-protocol/group";
-import type { SemaphoreFullProof } from "./types.js";
-import { readFileSync } from "fs";
-import { dirname, join } from "path";
-import { fileURLToPath } from "url";
+import type { Group, MerkleProof } from "@semaphore-protocol/group";
+import { groth16, wtns } from "snarkjs";
+import { encodeBytes32String, toBigInt } from "ethers";
+import type { ProgressOptions, SemaphoreFullProof } from "./types.js";
+import { getVerificationKey, MIN_TREE_DEPTH, MAX_TREE_DEPTH, type VerificationKey } from "./vk.js";
+import { DEFAULT_TREE_DEPTH } from "./group.js";
+import { NotAMemberError, UnsupportedTreeDepthError } from "./errors.js";
+import { CircuitArtifactCache, getDefaultArtifactCache } from "./artifacts.js";
+import { hashForCircuit } from "./calldata.js";
+import { assertU256, assertValidProof } from "./validation.js";
+
+export interface ProofOptions extends ProgressOptions {
+  /**
+   * Circuit tree depth to prove with. Must match the verifier of the
+   * deployment the group lives on. Default: DEFAULT_TREE_DEPTH, the depth of
+   * the reference deployment.
+   */
+  treeDepth?: number;
+  /**
+   * Circuit WASM + zkey: explicit paths or bytes, or a CircuitArtifactCache
+   * to take verified paths from. Default: getDefaultArtifactCache() (PSE
+   * CDN, every file checked against its pinned hash).
+   */
+  artifacts?: CircuitArtifactCache | CircuitArtifacts;
+}
+
+/** Circuit artifacts as accepted by snarkjs: paths or in-memory bytes */
+export type CircuitArtifacts = { wasm: string | Uint8Array; zkey: string | Uint8Array };
 
 /**
  * Generate a Semaphore Groth16 proof.
  *
  * This handles:
- * 1. Computing witness from identity + group + message + scope
- * 2. Downloading circuit artifacts (WASM + zkey) for the tree depth
+ * 1. Loading circuit artifacts (WASM + zkey) for the tree depth, from
+ *    `options.artifacts` or the PSE CDN
+ * 2. Computing witness from identity + group + message + scope
  * 3. Generating the Groth16 proof on BN254
  *
+ * Each step is reported through `options.onProgress` ("download" with byte
+ * counts, "witness", "proving"). `options.signal` stops downloads at once and
+ * proving at its next internal step; the call then rejects with the
+ * signal's reason.
+ *
+ * The tree depth is explicit: either `options.treeDepth` or
+ * DEFAULT_TREE_DEPTH. It does not follow the group's current size, since
+ * the group's contract only accepts proofs of its verifier's depth. The
+ * chosen depth is recorded in `proof.merkleTreeDepth` and selects the VK used
+ * for encoding.
+ *
  * @param identity - The Semaphore V4 identity
  * @param group - The off-chain group (BN254-Poseidon Merkle tree)
- * @param message - The signal/message to broadcast (will be hashed by the library)
- * @param scope - The scope/external nullifier (will be hashed by the library)
+ * @param message - The signal/message to broadcast (hashed for the circuit)
+ * @param scope - The scope/external nullifier (hashed for the circuit)
+ * @param options - Tree depth, circuit artifacts, progress and cancellation
  * @returns The full proof with public inputs
+ * @throws UnsupportedTreeDepthError if the depth is out of range or too small for the group
+ * @throws InvalidFieldElementError if the message or scope does not fit a u256
+ * @throws NotAMemberError if the identity's commitment is not in the group
+ * @throws ArtifactFetchError / ArtifactIntegrityError from the artifact cache
  */
 export async function generateSemaphoreProof(
   identity: Identity,
   group: Group,
   message: bigint | number | string,
   scope: bigint | number | string,
+  options: ProofOptions = {},
+): Promise<SemaphoreFullProof> {
+  options.signal?.throwIfAborted();
+  assertSignalInputs(message, scope);
+  const treeDepth = resolveTreeDepth(group, options.treeDepth);
+  const index = group.indexOf(identity.commitment);
+  if (index === -1) {
+    throw new NotAMemberError("The identity is not a member of the group");
+  }
+
+  const source = options.artifacts ?? getDefaultArtifactCache();
+  const artifacts = source instanceof CircuitArtifactCache
+    ? await source.get(treeDepth, options)
+    : source;
+
+  return proveMembership(identity, group.generateMerkleProof(index), message, scope, treeDepth, artifacts, options);
+}
+
+/**
+ * Prove membership from a Merkle proof — the steps after artifact loading,
+ * with the same inputs and output as @semaphore-protocol/proof's
+ * generateProof, split so each step can be reported and cancelled.
+ *
+ * @internal Shared by generateSemaphoreProof and the ProverPool workers.
+ */
+export async function proveMembership(
+  identity: Identity,
+  merkleProof: MerkleProof,
+  message: bigint | number | string,
+  scope: bigint | number | string,
+  treeDepth: number,
+  artifacts: CircuitArtifacts,
+  options: ProgressOptions = {},
 ): Promise<SemaphoreFullProof> {
-  const proof = await generateProof(identity, group, message, scope);
-  return proof as unknown as SemaphoreFullProof;
+  const { onProgress, signal } = options;
+  const messageValue = toCircuitBigInt(message);
+  const scopeValue = toCircuitBigInt(scope);
+
+  // Missing siblings are zero: the circuit ignores levels above merkleProofLength.
+  const siblings = Array.from({ length: treeDepth }, (_, i) => merkleProof.siblings[i] ?? 0n);
+
+  signal?.throwIfAborted();
+  onProgress?.({ phase: "witness" });
+  // In-memory witness "file", filled by wtns.calculate and read by prove
+  const witness: any = { type: "mem" };
+  await wtns.calculate(
+    {
+      secret: identity.secretScalar,
+      merkleProofLength: merkleProof.siblings.length,
+      merkleProofIndex: merkleProof.index,
+      merkleProofSiblings: siblings,
+      scope: hashForCircuit(scopeValue),
+      message: hashForCircuit(messageValue),
+    },
+    artifacts.wasm,
+    witness,
+  );
+
+  signal?.throwIfAborted();
+  onProgress?.({ phase: "proving" });
+  const { proof, publicSignals } = await groth16.prove(
+    artifacts.zkey,
+    witness,
+    signal && abortCheckpoints(signal),
+  );
+
+  return {
+    merkleTreeDepth: treeDepth,
+    merkleTreeRoot: merkleProof.root.toString(),
+    nullifier: publicSignals[1],
+    message: messageValue.toString(),
+    scope: scopeValue.toString(),
+    points: packGroth16Proof(proof as any) as string[],
+  };
+}
+
+/**
+ * Pick the circuit depth for a group: `treeDepth` if given, else
+ * DEFAULT_TREE_DEPTH. Either way it is checked against the group's size.
+ *
+ * @throws UnsupportedTreeDepthError if the depth is out of range or too small for the group
+ */
+export function resolveTreeDepth(group: Group, treeDepth?: number): number {
+  treeDepth ??= DEFAULT_TREE_DEPTH;
+  if (!Number.isInteger(treeDepth) || treeDepth < MIN_TREE_DEPTH || treeDepth > MAX_TREE_DEPTH) {
+    throw new UnsupportedTreeDepthError(
+      `Tree depth ${treeDepth} is not supported: expected ${MIN_TREE_DEPTH}–${MAX_TREE_DEPTH}`,
+    );
+  }
+  if (treeDepth < group.depth) {
+    throw new UnsupportedTreeDepthError(
+      `Tree depth ${treeDepth} is too small for a group of ${group.size} members (needs at least ${group.depth})`,
+    );
+  }
+  return treeDepth;
 }
 
 /**
@@ -35,41 +167,55 @@ export async function generateSemaphoreProof(
  *
  * @param proof - The full proof object returned by generateSemaphoreProof
  * @returns true if the proof is valid
+ * @throws InvalidFieldElementError / InvalidCurvePointError if the proof is malformed
  */
 export async function verifySemaphoreProof(
   proof: SemaphoreFullProof,
 ): Promise<boolean> {
+  assertValidProof(proof);
   return await verifyProof(proof as any);
 }
 
 /**
- * Extract the depth-specific verification key from @semaphore-protocol/proof.
+ * Get the depth-specific verification key, ready for use with Garaga.
+ *
+ * Reads the VK bundled with the SDK (see vk.ts) — no dependency on the
+ * layout of @semaphore-protocol/proof inside node_modules.
+ */
+export function extractVerificationKey(depth: number = 20): VerificationKey {
+  return getVerificationKey(depth);
+}
+
+/**
+ * Check that a message and scope convert to values the circuit inputs can
+ * hash (u256), before any artifact is loaded.
  *
- * The VK JSON has shared fields (vk_alpha_1, vk_beta_2, vk_gamma_2) and
- * depth-indexed arrays (vk_delta_2[depth-1], IC[depth-1]).
+ * @internal Shared with the ProverPool.
+ */
+export function assertSignalInputs(message: bigint | number | string, scope: bigint | number | string): void {
+  assertU256(toCircuitBigInt(message), "message");
+  assertU256(toCircuitBigInt(scope), "scope");
+}
+
+/**
+ * Same conversion as @semaphore-protocol/proof: numbers, else text as bytes32
  *
- * Returns a complete snarkjs-format VK ready for use with Garaga.
+ * @internal Shared with nullifier.ts.
  */
-export function extractVerificationKey(depth: number = 20): any {
-  // Find the VK file by walking up from this file to find node_modules
-  const thisDir = dirname(fileURLToPath(import.meta.url));
-  // Works from both src/ and dist/
-  const vkPath = join(thisDir, "..", "node_modules", "@semaphore-protocol", "proof", "src", "verification-keys.json");
-  const allVks = JSON.parse(readFileSync(vkPath, "utf-8"));
-
-  const idx = depth - 1;
-  if (idx < 0 || idx >= allVks.vk_delta_2.length) {
-    throw new Error(`No verification key found for depth ${depth}`);
+export function toCircuitBigInt(value: bigint | number | string): bigint {
+  try {
+    return toBigInt(value);
+  } catch {
+    if (typeof value === "string") return toBigInt(encodeBytes32String(value));
+    throw new TypeError(`Cannot convert ${String(value)} to a bigint`);
   }
+}
 
-  return {
-    protocol: allVks.protocol,
-    curve: allVks.curve,
-    nPublic: allVks.nPublic,
-    vk_alpha_1: allVks.vk_alpha_1,
-    vk_beta_2: allVks.vk_beta_2,
-    vk_gamma_2: allVks.vk_gamma_2,
-    vk_delta_2: allVks.vk_delta_2[idx],
-    IC: allVks.IC[idx],
-  };
+/**
+ * snarkjs logs each internal step of proving; a logger that throws once the
+ * signal has aborted turns those steps into cancellation points.
+ */
+function abortCheckpoints(signal: AbortSignal) {
+  const check = () => signal.throwIfAborted();
+  return { debug: check, info: check, warn: check, error: () => {} };
 }
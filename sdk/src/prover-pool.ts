@@ -0,0 +1,294 @@
+/**
+ * Proof generation on worker threads.
+ *
+ * `generateSemaphoreProof` runs witness generation and proving on the calling
+ * thread, blocking the event loop for seconds per proof. `ProverPool` runs
+ * the same proof on one of N workers and queues jobs beyond that.
+ *
+ * Only the identity's exported private key and the member's Merkle proof are
+ * sent to a worker, not the whole group. Each worker keeps the circuit files
+ * it has loaded in memory between jobs.
+ *
+ * Aborting a running job terminates its worker, which frees the memory and
+ * CPU it was using at once; a fresh worker is started for the next job.
+ */
+
+import { Worker } from "worker_threads";
+import { availableParallelism } from "os";
+import { performance } from "perf_hooks";
+import type { Identity } from "@semaphore-protocol/identity";
+import type { Group, MerkleProof } from "@semaphore-protocol/group";
+import type { ProgressOptions, ProofProgress, SemaphoreFullProof } from "./types.js";
+import { assertSignalInputs, resolveTreeDepth } from "./proof.js";
+import { CircuitArtifactCache, getDefaultArtifactCache, type SnarkArtifactPaths } from "./artifacts.js";
+import { NotAMemberError, ProverJobError } from "./errors.js";
+
+export interface ProverPoolOptions {
+  /** Number of worker threads (default: available CPU cores - 1, at least 1) */
+  concurrency?: number;
+  /** Circuit artifacts for every job; see ProofOptions.artifacts */
+  artifacts?: CircuitArtifactCache | SnarkArtifactPaths;
+}
+
+export interface ProverJobOptions extends ProgressOptions {
+  /** Circuit tree depth (default: DEFAULT_TREE_DEPTH); see ProofOptions.treeDepth */
+  treeDepth?: number;
+}
+
+/** Timing of one job, in milliseconds. */
+export interface ProverJobTiming {
+  /** Waiting for a free worker */
+  queuedMs: number;
+  /** Loading circuit artifacts in the worker (≈0 once they are loaded) */
+  loadMs: number;
+  /** Witness generation + Groth16 proving */
+  provingMs: number;
+  /** From `prove()` to result, including artifact cache checks */
+  totalMs: number;
+}
+
+export interface ProverJobResult {
+  proof: SemaphoreFullProof;
+  timing: ProverJobTiming;
+  /** Index of the worker that ran the job */
+  workerId: number;
+}
+
+/** @internal Message sent to a prover worker */
+export interface ProverJobRequest {
+  id: number;
+  identity: string;
+  merkleProof: MerkleProof;
+  message: bigint | number | string;
+  scope: bigint | number | string;
+  treeDepth: number;
+  artifacts: SnarkArtifactPaths;
+}
+
+/** @internal Message sent back by a prover worker */
+export type ProverJobResponse =
+  | { id: number; progress: ProofProgress }
+  | { id: number; ok: true; proof: SemaphoreFullProof; loadMs: number; provingMs: number }
+  | { id: number; ok: false; error: { name: string; message: string } };
+
+interface QueuedJob {
+  request: ProverJobRequest;
+  submittedAt: number;
+  queuedAt: number;
+  onProgress?: (progress: ProofProgress) => void;
+  resolve: (result: ProverJobResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  id: number;
+  worker: Worker;
+  job: (QueuedJob & { startedAt: number }) | null;
+}
+
+export class ProverPool {
+  readonly concurrency: number;
+  private readonly artifacts?: CircuitArtifactCache | SnarkArtifactPaths;
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: QueuedJob[] = [];
+  private nextJobId = 0;
+  private nextWorkerId = 0;
+  private terminated = false;
+
+  constructor(options: ProverPoolOptions = {}) {
+    this.concurrency = options.concurrency ?? Math.max(1, availableParallelism() - 1);
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new RangeError(`ProverPool concurrency must be a positive integer, got ${options.concurrency}`);
+    }
+    this.artifacts = options.artifacts;
+  }
+
+  /** Jobs waiting for a worker */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Jobs currently running */
+  get running(): number {
+    return this.workers.filter((w) => w.job !== null).length;
+  }
+
+  /**
+   * Queue a proof. Resolves with the same proof `generateSemaphoreProof`
+   * would return, plus timing.
+   *
+   * @throws UnsupportedTreeDepthError if the depth is out of range or too small for the group
+   * @throws InvalidFieldElementError if the message or scope does not fit a u256
+   * @throws NotAMemberError if the identity's commitment is not in the group
+   * @throws ProverJobError if proving failed in the worker or the pool was terminated
+   * @throws options.signal's reason if the job was aborted
+   */
+  async prove(
+    identity: Identity,
+    group: Group,
+    message: bigint | number | string,
+    scope: bigint | number | string,
+    options: ProverJobOptions = {},
+  ): Promise<ProverJobResult> {
+    if (this.terminated) throw new ProverJobError("ProverPool has been terminated");
+    const { onProgress, signal } = options;
+    signal?.throwIfAborted();
+
+    const submittedAt = performance.now();
+    assertSignalInputs(message, scope);
+    const treeDepth = resolveTreeDepth(group, options.treeDepth);
+    const index = group.indexOf(identity.commitment);
+    if (index === -1) {
+      throw new NotAMemberError("The identity is not a member of the group");
+    }
+    const source = this.artifacts ?? getDefaultArtifactCache();
+    const artifacts = source instanceof CircuitArtifactCache
+      ? await source.get(treeDepth, options)
+      : source;
+    signal?.throwIfAborted();
+
+    const request: ProverJobRequest = {
+      id: this.nextJobId++,
+      identity: identity.export(),
+      merkleProof: group.generateMerkleProof(index),
+      message,
+      scope,
+      treeDepth,
+      artifacts,
+    };
+    return new Promise<ProverJobResult>((resolve, reject) => {
+      const job: QueuedJob = { request, submittedAt, queuedAt: performance.now(), onProgress, resolve, reject };
+      const onAbort = () => this.abort(job, signal!.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      job.resolve = (result) => { signal?.removeEventListener("abort", onAbort); resolve(result); };
+      job.reject = (error) => { signal?.removeEventListener("abort", onAbort); reject(error); };
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop every worker. Queued and running jobs are rejected.
+   */
+  async terminate(): Promise<void> {
+    this.terminated = true;
+    const error = new ProverJobError("ProverPool has been terminated");
+    for (const job of this.queue.splice(0)) job.reject(error);
+    await Promise.all(this.workers.map(async (w) => {
+      w.job?.reject(error);
+      w.job = null;
+      await w.worker.terminate();
+    }));
+    this.workers.length = 0;
+  }
+
+  /** Drop a queued job, or stop the worker running it. */
+  private abort(job: QueuedJob, reason: unknown): void {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      const running = this.workers.find((w) => w.job?.request.id === job.request.id);
+      if (!running) return;
+      running.job = null;
+      this.remove(running);
+      void running.worker.terminate();
+      this.dispatch();
+    }
+    job.reject(reason);
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const idle = this.workers.find((w) => w.job === null) ??
+        (this.workers.length < this.concurrency ? this.spawn() : undefined);
+      if (!idle) return;
+      const job = this.queue.shift()!;
+      idle.job = { ...job, startedAt: performance.now() };
+      idle.worker.ref();
+      idle.worker.postMessage(job.request);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const poolWorker: PoolWorker = { id: this.nextWorkerId++, worker: createProverWorker(), job: null };
+
+    poolWorker.worker.on("message", (response: ProverJobResponse) => {
+      const job = poolWorker.job;
+      if (!job || job.request.id !== response.id) return;
+      if ("progress" in response) {
+        job.onProgress?.(response.progress);
+        return;
+      }
+      poolWorker.job = null;
+      poolWorker.worker.unref();
+
+      if (response.ok) {
+        const now = performance.now();
+        job.resolve({
+          proof: response.proof,
+          timing: {
+            queuedMs: job.startedAt - job.queuedAt,
+            loadMs: response.loadMs,
+            provingMs: response.provingMs,
+            totalMs: now - job.submittedAt,
+          },
+          workerId: poolWorker.id,
+        });
+      } else {
+        job.reject(new ProverJobError(`${response.error.name}: ${response.error.message}`));
+      }
+      this.dispatch();
+    });
+
+    poolWorker.worker.on("error", (err) => {
+      this.fail(poolWorker, new ProverJobError(`Prover worker ${poolWorker.id} crashed`, { cause: err }));
+    });
+
+    // Also covers a worker that exits without an error, e.g. through process.exit().
+    // Workers stopped by abort() or terminate() are already removed.
+    poolWorker.worker.on("exit", (code) => {
+      this.fail(poolWorker, new ProverJobError(`Prover worker ${poolWorker.id} exited with code ${code}`));
+    });
+
+    // Only busy workers keep the process alive (ref'd in dispatch).
+    poolWorker.worker.unref();
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  /** Reject the job of a worker that died, and replace the worker. */
+  private fail(poolWorker: PoolWorker, error: ProverJobError): void {
+    poolWorker.job?.reject(error);
+    poolWorker.job = null;
+    if (this.remove(poolWorker) && !this.terminated) this.dispatch();
+  }
+
+  /** @returns whether the worker was still in the pool */
+  private remove(poolWorker: PoolWorker): boolean {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return false;
+    this.workers.splice(index, 1);
+    return true;
+  }
+}
+
+/**
+ * Start a worker running prover-worker.
+ *
+ * snarkjs pulls in the `web-worker` package, which takes over any worker
+ * thread it is loaded in and expects `workerData.mod`; it gets a no-op
+ * module. When running from .ts sources (tsx), tsx is registered inside the
+ * worker first, since loader hooks are not inherited by worker threads.
+ */
+function createProverWorker(): Worker {
+  const workerData = { mod: "data:text/javascript,", type: "module", name: "semaphore-prover" };
+  if (!import.meta.url.endsWith(".ts")) {
+    return new Worker(new URL("./prover-worker.js", import.meta.url), { workerData });
+  }
+  const entry = new URL("./prover-worker.ts", import.meta.url).href;
+  return new Worker(
+    `import("tsx/esm/api").then((tsx) => tsx.register()).then(() => import(${JSON.stringify(entry)}))`,
+    { eval: true, workerData },
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Worker-thread entry point for ProverPool (see prover-pool.ts).
+ *
+ * Each worker keeps the circuit WASM and zkey bytes it has loaded, keyed by
+ * path, so only the first job per depth pays for reading ~50MB from disk.
+ */
+
+import { parentPort } from "worker_threads";
+import { readFile } from "fs/promises";
+import { performance } from "perf_hooks";
+import { Identity } from "@semaphore-protocol/identity";
+import * as snarkjs from "snarkjs";
+import { proveMembership } from "./proof.js";
+import type { ProverJobRequest, ProverJobResponse } from "./prover-pool.js";
+
+// ffjavascript cannot start its own threads from inside a worker thread.
+// snarkjs reuses globalThis.curve_bn128 when set, so install a
+// single-threaded curve once; the pool provides the parallelism.
+const curveReady = (snarkjs as any).curves
+  .getCurveFromName("bn128", { singleThread: true })
+  .then((curve: unknown) => { (globalThis as any).curve_bn128 = curve; });
+
+const loaded = new Map<string, Promise<Uint8Array>>();
+
+function load(path: string): Promise<Uint8Array> {
+  let bytes = loaded.get(path);
+  if (!bytes) {
+    bytes = readFile(path).then((b) => new Uint8Array(b.buffer, b.byteOffset, b.byteLength));
+    bytes.catch(() => loaded.delete(path));
+    loaded.set(path, bytes);
+  }
+  return bytes;
+}
+
+parentPort!.on("message", async (job: ProverJobRequest) => {
+  let response: ProverJobResponse;
+  try {
+    await curveReady;
+    const loadStart = performance.now();
+    const artifacts = { wasm: await load(job.artifacts.wasm), zkey: await load(job.artifacts.zkey) };
+    const loadMs = performance.now() - loadStart;
+
+    const proveStart = performance.now();
+    const proof = await proveMembership(
+      Identity.import(job.identity),
+      job.merkleProof,
+      job.message,
+      job.scope,
+      job.treeDepth,
+      artifacts,
+      { onProgress: (progress) => parentPort!.postMessage({ id: job.id, progress } satisfies ProverJobResponse) },
+    );
+    response = { id: job.id, ok: true, proof, loadMs, provingMs: performance.now() - proveStart };
+  } catch (err: any) {
+    response = { id: job.id, ok: false, error: { name: err?.name ?? "Error", message: err?.message ?? String(err) } };
+  }
+  parentPort!.postMessage(response);
+});
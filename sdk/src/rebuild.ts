@@ -0,0 +1,139 @@
+/**
+ * Rebuild an off-chain group from on-chain history.
+ *
+ * The contract only stores roots; the tree itself lives off-chain with the
+ * admin. Replaying `MemberAdded` / `MemberRemoved` in chain order and checking
+ * the local root against each event's `merkle_root` lets any member rebuild
+ * the tree and confirm it is the one the contract anchors, without trusting
+ * the admin's server.
+ *
+ * Note: the `index` field of `MemberAdded` is the contract's member count
+ * (decremented on removal), not the leaf index, so it is not checked here.
+ */
+
+import { Group } from "@semaphore-protocol/group";
+import type { ProviderInterface } from "starknet";
+import {
+  fetchSemaphoreEvents,
+  type MemberAddedEvent,
+  type MemberRemovedEvent,
+} from "./events.js";
+
+export type MembershipEvent = MemberAddedEvent | MemberRemovedEvent;
+
+/** Why the replay stopped: where it happened and what the tree looked like. */
+export interface GroupDivergence {
+  /** Position of the offending event in the replayed sequence */
+  step: number;
+  event: MembershipEvent;
+  reason: "root-mismatch" | "unknown-member" | "invalid-operation";
+  /** Root emitted by the contract for this event */
+  expectedRoot: bigint;
+  /** Local root after applying the event (undefined if it could not be applied) */
+  localRoot?: bigint;
+  message: string;
+}
+
+/** `eventsApplied` always counts the events included in `group`. */
+export type RebuildGroupResult =
+  | { ok: true; group: Group; eventsApplied: number }
+  | { ok: false; divergence: GroupDivergence; group: Group; eventsApplied: number };
+
+export interface RebuildGroupFromChainOptions {
+  /** Address of the Semaphore contract */
+  address: string;
+  groupId: bigint;
+  /** First block to scan (default: 0). Use the deployment block to skip empty history. */
+  fromBlock?: number;
+  /** Last block to scan (default: "latest") */
+  toBlock?: number | "latest";
+}
+
+/**
+ * Replay membership events into a fresh group, checking the root after each.
+ *
+ * Events must be in chain order and belong to a single group. On a root
+ * mismatch the returned group already includes the offending event (its root
+ * is `localRoot`, and `eventsApplied` is `step + 1`); for the other failures
+ * it stops just before it.
+ */
+export function replayGroupHistory(events: MembershipEvent[]): RebuildGroupResult {
+  const group = new Group();
+
+  for (let step = 0; step < events.length; step++) {
+    const event = events[step];
+    const fail = (
+      reason: GroupDivergence["reason"],
+      message: string,
+      localRoot?: bigint,
+    ): RebuildGroupResult => ({
+      ok: false,
+      group,
+      // The event was applied exactly when it produced a local root.
+      eventsApplied: localRoot === undefined ? step : step + 1,
+      divergence: { step, event, reason, expectedRoot: event.merkleRoot, localRoot, message },
+    });
+
+    let index = -1;
+    if (event.name === "MemberRemoved") {
+      index = group.indexOf(event.identityCommitment);
+      if (index === -1) {
+        return fail(
+          "unknown-member",
+          `MemberRemoved for commitment ${event.identityCommitment} which is not in the group ` +
+          `(tx ${event.transactionHash})`,
+        );
+      }
+    }
+
+    try {
+      if (event.name === "MemberAdded") {
+        group.addMember(event.identityCommitment);
+      } else {
+        group.removeMember(index);
+      }
+    } catch (err: any) {
+      return fail(
+        "invalid-operation",
+        `Could not apply ${event.name} (tx ${event.transactionHash}): ${err?.message || err}`,
+      );
+    }
+
+    if (group.root !== event.merkleRoot) {
+      return fail(
+        "root-mismatch",
+        `Local root ${group.root} does not match on-chain root ${event.merkleRoot} ` +
+        `after ${event.name} at block ${event.blockNumber} (tx ${event.transactionHash})`,
+        group.root,
+      );
+    }
+  }
+
+  return { ok: true, group, eventsApplied: events.length };
+}
+
+/**
+ * Fetch a group's membership history from the chain and replay it.
+ *
+ * @example
+ * const result = await rebuildGroupFromChain(provider, {
+ *   address: SEMAPHORE_ADDRESS,
+ *   groupId: 42n,
+ *   fromBlock: DEPLOY_BLOCK,
+ * });
+ * if (!result.ok) throw new Error(result.divergence.message);
+ * const proof = await generateSemaphoreProof(identity, result.group, message, scope);
+ */
+export async function rebuildGroupFromChain(
+  provider: ProviderInterface,
+  options: RebuildGroupFromChainOptions,
+): Promise<RebuildGroupResult> {
+  const events = await fetchSemaphoreEvents(provider, {
+    address: options.address,
+    groupId: options.groupId,
+    names: ["MemberAdded", "MemberRemoved"],
+    fromBlock: options.fromBlock,
+    toBlock: options.toBlock,
+  });
+  return replayGroupHistory(events as MembershipEvent[]);
+}
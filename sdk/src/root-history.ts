@@ -0,0 +1,199 @@
+/**
+ * Root validity window tracking.
+ *
+ * `send_signal` accepts a proof only if its Merkle root is the group's
+ * current root or one of the last `root_history_size` roots (default 100,
+ * fixed at deployment). Every `add_member` / `remove_member` writes a root
+ * to that ring buffer. A proof made against an older group state then
+ * reverts with 'Merkle root mismatch'.
+ *
+ * `RootHistoryTracker` follows a group's `MemberAdded` / `MemberRemoved`
+ * events. For a root, it tells whether the contract still accepts it and how
+ * many more membership changes it will survive. It can also rebuild the group
+ * as it was at that root, so members can prove against a root that stays
+ * valid while the group grows.
+ *
+ * The ring buffer size has no view function, so it is a constructor option.
+ * `check()` confirms validity with the contract's `is_valid_root`.
+ */
+
+import type { Group } from "@semaphore-protocol/group";
+import type { ProviderInterface } from "starknet";
+import { SemaphoreClient } from "./client.js";
+import { fetchSemaphoreEvents } from "./events.js";
+import { replayGroupHistory, type MembershipEvent } from "./rebuild.js";
+import { createGroupSnapshot, type GroupSnapshot } from "./snapshot.js";
+import { RootHistoryError } from "./errors.js";
+
+/** Ring buffer size used by the contract when deployed with root_history_size = 0 */
+export const DEFAULT_ROOT_HISTORY_SIZE = 100;
+
+export interface RootHistoryTrackerOptions {
+  /** Address of the Semaphore contract */
+  address: string;
+  groupId: bigint;
+  /** root_history_size the contract was deployed with (default: 100) */
+  rootHistorySize?: number;
+  /**
+   * First block to scan (default: 0). Use the deployment block to skip empty
+   * history, but no later: change counts assume the group's full history.
+   */
+  fromBlock?: number;
+}
+
+export interface RootStatus {
+  root: bigint;
+  /** Whether `send_signal` accepts the root now */
+  valid: boolean;
+  /** Whether it is the group's current root */
+  current: boolean;
+  /**
+   * Membership change that set the root (1 = the group's first change), or
+   * null if no tracked event set it
+   */
+  change: number | null;
+  /**
+   * Further membership changes the root stays valid through: 0 means the
+   * next change evicts it. Null if the root is not valid, or validity is
+   * only known from the contract.
+   */
+  remainingChanges: number | null;
+}
+
+export class RootHistoryTracker {
+  readonly address: string;
+  readonly groupId: bigint;
+  readonly rootHistorySize: number;
+  private readonly provider: ProviderInterface;
+  private readonly client: SemaphoreClient;
+  private readonly history: MembershipEvent[] = [];
+  /** Latest change (1-based) that set each root */
+  private readonly changeOf = new Map<bigint, number>();
+  private nextBlock: number;
+  private syncing: Promise<unknown> = Promise.resolve();
+
+  constructor(provider: ProviderInterface, options: RootHistoryTrackerOptions) {
+    this.provider = provider;
+    this.address = options.address;
+    this.groupId = options.groupId;
+    this.rootHistorySize = options.rootHistorySize ?? DEFAULT_ROOT_HISTORY_SIZE;
+    if (!Number.isInteger(this.rootHistorySize) || this.rootHistorySize < 1 || this.rootHistorySize > 255) {
+      throw new RangeError(`rootHistorySize must be an integer in 1–255, got ${options.rootHistorySize}`);
+    }
+    this.nextBlock = options.fromBlock ?? 0;
+    this.client = new SemaphoreClient({ address: options.address, providerOrAccount: provider });
+  }
+
+  /** Membership events seen so far, in chain order. */
+  get events(): readonly MembershipEvent[] {
+    return this.history;
+  }
+
+  /** Number of membership changes seen so far */
+  get changes(): number {
+    return this.history.length;
+  }
+
+  /** Current root according to the tracked events (0 before the first member). */
+  get currentRoot(): bigint {
+    return this.history.at(-1)?.merkleRoot ?? 0n;
+  }
+
+  /**
+   * Fetch membership events up to the latest block. Overlapping calls (e.g.
+   * from concurrent `check`s) run one after another, so each event is
+   * recorded once.
+   *
+   * @returns The number of new events
+   */
+  sync(): Promise<number> {
+    const result = this.syncing.then(() => this.fetchNewEvents());
+    this.syncing = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Validity of a root from the events synced so far, without network calls.
+   * Roots set before `fromBlock` are reported invalid.
+   */
+  status(root: bigint): RootStatus {
+    const current = root === this.currentRoot;
+    const change = this.changeOf.get(root) ?? null;
+    // The ring buffer holds the roots of the last rootHistorySize changes.
+    const remaining = change === null ? null : change + this.rootHistorySize - 1 - this.history.length;
+    const inWindow = remaining !== null && remaining >= 0;
+    const valid = current || inWindow;
+    return {
+      root,
+      valid,
+      current,
+      change,
+      remainingChanges: inWindow ? remaining : current ? 0 : null,
+    };
+  }
+
+  /**
+   * Sync, then ask the contract's `is_valid_root`. The contract's answer is
+   * authoritative; if it disagrees with the tracked events (wrong
+   * rootHistorySize, or fromBlock after the root was set),
+   * `remainingChanges` is null.
+   */
+  async check(root: bigint): Promise<RootStatus> {
+    await this.sync();
+    const local = this.status(root);
+    const valid = await this.client.isValidRoot(this.groupId, root);
+    return valid === local.valid
+      ? local
+      : { ...local, valid, remainingChanges: null };
+  }
+
+  /**
+   * The group as it was right after `root` was set, rebuilt from the tracked
+   * events. A proof against it stays valid for `status(root).remainingChanges`
+   * more changes.
+   *
+   * @throws RootHistoryError if no tracked event set the root, or the replay diverges
+   */
+  groupAtRoot(root: bigint): Group {
+    const change = this.changeOf.get(root);
+    if (change === undefined) {
+      throw new RootHistoryError(`Root ${root} was not set by any tracked event of group ${this.groupId}`);
+    }
+    const result = replayGroupHistory(this.history.slice(0, change));
+    if (!result.ok) throw new RootHistoryError(result.divergence.message);
+    return result.group;
+  }
+
+  /**
+   * A snapshot of the group at `root`, taken at the block of the event that
+   * set it. See `groupAtRoot`.
+   */
+  snapshotAtRoot(root: bigint, options: { chainId: string | bigint; treeDepth: number }): GroupSnapshot {
+    const group = this.groupAtRoot(root);
+    return createGroupSnapshot(group, {
+      chainId: options.chainId,
+      contractAddress: this.address,
+      groupId: this.groupId,
+      treeDepth: options.treeDepth,
+      blockNumber: this.history[this.changeOf.get(root)! - 1].blockNumber,
+    });
+  }
+
+  private async fetchNewEvents(): Promise<number> {
+    const toBlock = await this.provider.getBlockNumber();
+    if (toBlock < this.nextBlock) return 0;
+    const events = await fetchSemaphoreEvents(this.provider, {
+      address: this.address,
+      groupId: this.groupId,
+      names: ["MemberAdded", "MemberRemoved"],
+      fromBlock: this.nextBlock,
+      toBlock,
+    });
+    for (const event of events as MembershipEvent[]) {
+      this.history.push(event);
+      this.changeOf.set(event.merkleRoot, this.history.length);
+    }
+    this.nextBlock = toBlock + 1;
+    return events.length;
+  }
+}
@@ -9,10 +9,53 @@
  * observing multiple contracts' nullifier registries to correlate the same
  * identity across protocols.
  *
- * Recommended construction: Hash(contractAddress || domainSeparator)
+ * Recommended construction: `deriveScope`, which hashes a typed tuple of
+ * (chain ID, contract address, group ID, app domain, epoch). The contract's
+ * `used_nullifiers` set is global, not per group, so a scope without the
+ * group ID lets a member of two groups signal only once across both. The
+ * optional epoch, taken from an `EpochSchedule`, gives recurring limits such
+ * as one signal per member per day.
  */
 
-import { keccak256, toBeHex, getBytes, concat } from "ethers";
+import { AbiCoder, keccak256, toBeHex, getBytes, concat } from "ethers";
+import { ScopeError } from "./errors.js";
+import { assertFelt252, assertU256, chainIdToFelt } from "./validation.js";
+
+const SCOPE_TAG = "semaphore-cairo/scope/v1";
+
+/** The context a scope is bound to. */
+export interface ScopeParams {
+  /** Chain ID as a hex felt or a short string (e.g. "SN_SEPOLIA") */
+  chainId: string | bigint;
+  contractAddress: string | bigint;
+  groupId: bigint | number | string;
+  /** Application domain, e.g. "anonymous-voting-v1" */
+  domain: string;
+  /** Epoch number from an EpochSchedule; omit for a one-time scope */
+  epoch?: bigint | number;
+}
+
+/**
+ * Fixed-length epochs, counted from `start`: epoch n covers
+ * [start + n·length, start + (n+1)·length).
+ * - "time": `start` and `length` are Unix seconds
+ * - "block": `start` and `length` are block numbers
+ */
+export interface EpochSchedule {
+  kind: "time" | "block";
+  start: number;
+  length: number;
+}
+
+/** One epoch of a schedule and its scope. */
+export interface EpochScope {
+  epoch: bigint;
+  scope: bigint;
+  /** First second / block of the epoch */
+  start: number;
+  /** First second / block after the epoch */
+  end: number;
+}
 
 /**
  * Compute a safe scope value for a Semaphore group.
@@ -20,6 +63,8 @@ import { keccak256, toBeHex, getBytes, concat } from "ethers";
  * Produces: keccak256(contractAddress || domainSeparator) >> 8
  * — unique per deployer by default, fits in a felt252.
  *
+ * Ignores the chain and group; prefer `deriveScope` for new applications.
+ *
  * @param contractAddress - The StarkNet contract address (hex string or bigint)
  * @param domainSeparator - An application-specific string (e.g. "my-app-v1", "election-2026")
  * @returns A bigint scope value safe for production use
@@ -41,15 +86,126 @@ export function computeScope(
 }
 
 /**
- * Warn if a scope value looks like a raw test integer.
+ * Scope bound to a chain, contract, group, app domain and optional epoch.
+ *
+ * Produces: keccak256(abi.encode(tag, chainId, contractAddress, groupId,
+ * domain, hasEpoch, epoch)) >> 8 — fits in a felt252. The ABI encoding is
+ * unambiguous, so no two different tuples share an encoding.
+ *
+ * @throws InvalidFieldElementError if the chain ID or contract address is
+ *   not a felt252, or the group ID does not fit a u256
+ *
+ * @example
+ * const scope = deriveScope({
+ *   chainId: "SN_SEPOLIA",
+ *   contractAddress: SEMAPHORE_ADDRESS,
+ *   groupId: 1n,
+ *   domain: "anonymous-voting-v1",
+ * });
+ */
+export function deriveScope(params: ScopeParams): bigint {
+  const epoch = params.epoch === undefined ? undefined : BigInt(params.epoch);
+  if (epoch !== undefined && epoch < 0n) throw new ScopeError(`Epoch must be non-negative, got ${epoch}`);
+  const chainId = assertFelt252(chainIdToFelt(params.chainId), "chainId");
+  const contractAddress = assertFelt252(params.contractAddress, "contractAddress");
+  const groupId = assertU256(params.groupId, "groupId");
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ["string", "uint256", "uint256", "uint256", "string", "bool", "uint256"],
+    [
+      SCOPE_TAG,
+      chainId,
+      contractAddress,
+      groupId,
+      params.domain,
+      epoch !== undefined,
+      epoch ?? 0n,
+    ],
+  );
+  return BigInt(keccak256(encoded)) >> 8n;
+}
+
+/**
+ * Epoch of a schedule at a time (Unix seconds) or block number.
+ *
+ * @throws ScopeError if `at` is before the schedule starts
+ */
+export function epochAt(schedule: EpochSchedule, at: number): bigint {
+  checkSchedule(schedule);
+  if (at < schedule.start) {
+    throw new ScopeError(`${at} is before the epoch schedule starts (${schedule.start})`);
+  }
+  return BigInt(Math.floor((at - schedule.start) / schedule.length));
+}
+
+/** Scope of one epoch, with the epoch's bounds. */
+export function epochScope(params: Omit<ScopeParams, "epoch">, schedule: EpochSchedule, epoch: bigint): EpochScope {
+  checkSchedule(schedule);
+  const start = schedule.start + Number(epoch) * schedule.length;
+  return { epoch, scope: deriveScope({ ...params, epoch }), start, end: start + schedule.length };
+}
+
+/**
+ * Scopes of the current and next epoch. Members prove with `current.scope`;
+ * `next` lets an app prepare for the switch at `current.end`.
+ *
+ * @param at - Unix seconds for a "time" schedule (default: now), the
+ *   current block number for a "block" schedule (required)
+ *
+ * @example
+ * // One signal per member per day
+ * const daily = { kind: "time", start: 1767225600, length: 86_400 } as const;
+ * const { current } = currentEpochScopes(params, daily);
+ * const proof = await generateSemaphoreProof(identity, group, message, current.scope);
+ */
+export function currentEpochScopes(
+  params: Omit<ScopeParams, "epoch">,
+  schedule: EpochSchedule,
+  at?: number,
+): { current: EpochScope; next: EpochScope } {
+  if (at === undefined) {
+    if (schedule.kind === "block") throw new ScopeError("A block epoch schedule needs the current block number");
+    at = Math.floor(Date.now() / 1000);
+  }
+  const epoch = epochAt(schedule, at);
+  return {
+    current: epochScope(params, schedule, epoch),
+    next: epochScope(params, schedule, epoch + 1n),
+  };
+}
+
+/**
+ * Reject scopes that look like test placeholders. With `expected`, also
+ * require the scope to be `deriveScope(expected)`, i.e. bound to that chain,
+ * contract, group, domain and epoch. An array accepts any of its entries
+ * (e.g. the current and next epoch).
  * Call this before generateSemaphoreProof() in production code.
+ *
+ * @throws ScopeError if the scope is a placeholder or matches none of `expected`
  */
-export function assertProductionScope(scope: bigint): void {
+export function assertProductionScope(scope: bigint, expected?: ScopeParams | ScopeParams[]): void {
   if (scope < 1000n) {
-    throw new Error(
+    throw new ScopeError(
       `Scope value ${scope} looks like a test placeholder. ` +
-      `Use computeScope(contractAddress, domainSeparator) to derive a safe production scope. ` +
+      `Use deriveScope({ chainId, contractAddress, groupId, domain }) to derive a safe production scope. ` +
       `See SECURITY.md for details.`,
     );
   }
+  if (expected === undefined) return;
+  const candidates = Array.isArray(expected) ? expected : [expected];
+  if (!candidates.some((params) => deriveScope(params) === scope)) {
+    const contexts = candidates.map(describeScope).join("; ");
+    throw new ScopeError(`Scope ${scope} is not the scope derived for ${contexts}`);
+  }
+}
+
+function describeScope(params: ScopeParams): string {
+  const epoch = params.epoch === undefined ? "" : `, epoch ${params.epoch}`;
+  return `group ${params.groupId} of ${params.contractAddress} on ${params.chainId} (domain "${params.domain}"${epoch})`;
+}
+
+function checkSchedule(schedule: EpochSchedule): void {
+  if (!Number.isSafeInteger(schedule.start) || schedule.start < 0 ||
+      !Number.isSafeInteger(schedule.length) || schedule.length < 1) {
+    throw new ScopeError("An epoch schedule needs a non-negative integer start and a positive integer length");
+  }
 }
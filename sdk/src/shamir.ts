@@ -0,0 +1,248 @@
+/**
+ * Social recovery of identities with Shamir secret sharing.
+ *
+ * `splitIdentity` splits an identity's private key into N shares. Any K of
+ * them rebuild it, and fewer than K reveal nothing about it. The owner hands
+ * the shares to guardians. Rotating a lost identity would need an admin
+ * `remove_member` + `add_member`, which links the old and new commitments
+ * on-chain; recovering the same key does not.
+ *
+ * Sharing is byte-wise over GF(2^8), so keys of any length split, including
+ * text keys. Each share carries a checksum over its own fields, so a
+ * corrupted share is rejected on its own. Shares carry nothing derived from
+ * the key itself: a hash of it would let one guardian brute-force a
+ * low-entropy key offline. A share that was altered with a valid checksum is
+ * caught instead by checking the rebuilt identity against its commitment
+ * (kept outside the shares, e.g. the on-chain group member), and by checking
+ * any shares beyond the threshold against the rebuilt polynomial.
+ *
+ * Shares serialize to versioned JSON.
+ */
+
+import { Identity } from "@semaphore-protocol/identity";
+import { decodeBase64, encodeBase64, hexlify, sha256, toUtf8Bytes, type BytesLike } from "ethers";
+import { IdentityShareError } from "./errors.js";
+
+/** Share format version written by this SDK */
+export const IDENTITY_SHARE_VERSION = 1;
+
+const CHECKSUM_TAG = "semaphore-cairo/identity-share/checksum/v1";
+const SET_ID_LENGTH = 16;
+const CHECKSUM_LENGTH = 4;
+const MAX_SHARES = 255;
+
+/** One Shamir share of an identity's private key. */
+export interface IdentityShare {
+  version: 1;
+  /** Random ID common to every share of one split (hex) */
+  setId: string;
+  /** Shares needed to rebuild the identity (K) */
+  threshold: number;
+  /** Shares created by the split (N) */
+  shares: number;
+  /** This share's x-coordinate, 1–N */
+  index: number;
+  /** Share bytes, one per private-key byte (hex) */
+  data: string;
+  /** Truncated SHA-256 of every other field (hex) */
+  checksum: string;
+}
+
+export interface CombineIdentitySharesOptions {
+  /** Commitment of the identity being recovered; the rebuilt identity must match it */
+  commitment?: bigint;
+}
+
+export interface SplitIdentityOptions {
+  /** Shares needed to rebuild (K, 2–shares) */
+  threshold: number;
+  /** Shares to create (N, up to 255) */
+  shares: number;
+}
+
+/**
+ * Split an identity's private key into `shares` shares, any `threshold` of
+ * which rebuild it.
+ *
+ * @throws IdentityShareError if threshold or shares are out of range
+ */
+export function splitIdentity(identity: Identity, options: SplitIdentityOptions): IdentityShare[] {
+  const { threshold, shares } = options;
+  if (!Number.isInteger(shares) || shares < 2 || shares > MAX_SHARES) {
+    throw new IdentityShareError(`Share count must be an integer in 2–${MAX_SHARES}, got ${shares}`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > shares) {
+    throw new IdentityShareError(`Threshold must be an integer in 2–${shares}, got ${threshold}`);
+  }
+
+  const secret = decodeBase64(identity.export());
+  const setId = hexlify(randomBytes(SET_ID_LENGTH)).slice(2);
+
+  // One random polynomial of degree threshold-1 per secret byte, with the
+  // byte as its constant term.
+  const coefficients = Array.from(secret, () => randomBytes(threshold - 1));
+  const result: IdentityShare[] = [];
+  for (let x = 1; x <= shares; x++) {
+    const data = secret.map((byte, i) => evaluate(byte, coefficients[i], x));
+    const share = { version: IDENTITY_SHARE_VERSION, setId, threshold, shares, index: x, data: hexlify(data).slice(2) } as const;
+    result.push({ ...share, checksum: checksum(share) });
+  }
+  return result;
+}
+
+/**
+ * Rebuild an identity from at least `threshold` shares of one split, in any
+ * order. Extra shares are allowed, and must agree with the rebuilt key;
+ * exact duplicates are ignored.
+ *
+ * Exactly `threshold` shares rebuild some key whatever their data, so pass
+ * `options.commitment` to be sure it is the original one.
+ *
+ * @throws IdentityShareError if a share is corrupted, the shares come from
+ *   different splits, there are too few, they disagree with each other, or
+ *   they rebuild an identity with another commitment
+ */
+export function combineIdentityShares(
+  input: Array<IdentityShare | string>,
+  options: CombineIdentitySharesOptions = {},
+): Identity {
+  const shares = input.map(parseIdentityShare);
+  if (shares.length === 0) throw new IdentityShareError("No shares given");
+
+  const [first] = shares;
+  const byIndex = new Map<number, IdentityShare>();
+  for (const share of shares) {
+    if (share.setId !== first.setId || share.threshold !== first.threshold ||
+        share.shares !== first.shares || share.data.length !== first.data.length) {
+      throw new IdentityShareError(`Share ${share.index} belongs to a different split than share ${first.index}`);
+    }
+    const seen = byIndex.get(share.index);
+    if (seen && seen.data !== share.data) {
+      throw new IdentityShareError(`Two different shares have index ${share.index}`);
+    }
+    byIndex.set(share.index, share);
+  }
+  if (byIndex.size < first.threshold) {
+    throw new IdentityShareError(`Need ${first.threshold} distinct shares to rebuild the identity, got ${byIndex.size}`);
+  }
+
+  const distinct = [...byIndex.values()];
+  const used = distinct.slice(0, first.threshold);
+  const xs = used.map((s) => s.index);
+  const ys = used.map((s) => fromHex(s.data));
+  const secret = new Uint8Array(ys[0].length).map((_, i) => interpolate(xs, ys.map((y) => y[i]), 0));
+
+  for (const extra of distinct.slice(first.threshold)) {
+    const data = fromHex(extra.data);
+    if (data.some((byte, i) => interpolate(xs, ys.map((y) => y[i]), extra.index) !== byte)) {
+      throw new IdentityShareError(`Share ${extra.index} disagrees with shares ${xs.join(", ")}; one of them was altered`);
+    }
+  }
+
+  const identity = Identity.import(encodeBase64(secret));
+  if (options.commitment !== undefined && identity.commitment !== options.commitment) {
+    throw new IdentityShareError(
+      `The shares rebuild an identity with commitment ${identity.commitment}, not ${options.commitment}; one of them was altered`,
+    );
+  }
+  return identity;
+}
+
+/** Serialize a share for a guardian to store. */
+export function serializeIdentityShare(share: IdentityShare): string {
+  return JSON.stringify(share);
+}
+
+/**
+ * Parse and validate a share, including its checksum.
+ *
+ * @throws IdentityShareError if it is malformed, of an unknown version, or corrupted
+ */
+export function parseIdentityShare(input: IdentityShare | string): IdentityShare {
+  let value: any;
+  try {
+    value = typeof input === "string" ? JSON.parse(input) : input;
+  } catch (err) {
+    throw new IdentityShareError("Share is not valid JSON", { cause: err });
+  }
+  if (typeof value !== "object" || value === null) throw new IdentityShareError("Share must be a JSON object");
+  if (value.version !== IDENTITY_SHARE_VERSION) {
+    throw new IdentityShareError(`Unsupported share version ${JSON.stringify(value.version)}: expected ${IDENTITY_SHARE_VERSION}`);
+  }
+  const { setId, threshold, shares, index, data } = value;
+  const valid =
+    isHex(setId, SET_ID_LENGTH) && isHex(value.checksum, CHECKSUM_LENGTH) &&
+    isHex(data) && data.length > 0 &&
+    Number.isInteger(shares) && shares >= 2 && shares <= MAX_SHARES &&
+    Number.isInteger(threshold) && threshold >= 2 && threshold <= shares &&
+    Number.isInteger(index) && index >= 1 && index <= shares;
+  if (!valid) throw new IdentityShareError("Share has missing or out-of-range fields");
+
+  const share: IdentityShare = { version: IDENTITY_SHARE_VERSION, setId, threshold, shares, index, data, checksum: value.checksum };
+  if (checksum(share) !== share.checksum) {
+    throw new IdentityShareError(`Share ${index} failed its checksum: it is corrupted`);
+  }
+  return share;
+}
+
+// ── GF(2^8) arithmetic (AES polynomial x^8 + x^4 + x^3 + x + 1) ────────────
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0); // x *= 3
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/** constant + c[0]·x + c[1]·x² + … */
+function evaluate(constant: number, coefficients: Uint8Array, x: number): number {
+  let y = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) y = mul(y, x) ^ coefficients[i];
+  return mul(y, x) ^ constant;
+}
+
+/** Lagrange interpolation of the polynomial through (xs, ys), at `at`. */
+function interpolate(xs: number[], ys: number[], at: number): number {
+  let result = 0;
+  for (let i = 0; i < xs.length; i++) {
+    let basis = 1;
+    for (let j = 0; j < xs.length; j++) {
+      if (j !== i) basis = mul(basis, div(xs[j] ^ at, xs[i] ^ xs[j]));
+    }
+    result ^= mul(ys[i], basis);
+  }
+  return result;
+}
+
+// ── Encoding ───────────────────────────────────────────────────────────────
+
+function checksum(share: Omit<IdentityShare, "checksum">): string {
+  const fields = [CHECKSUM_TAG, share.version, share.setId, share.threshold, share.shares, share.index, share.data];
+  return truncatedSha256(toUtf8Bytes(fields.join(":")), CHECKSUM_LENGTH);
+}
+
+function truncatedSha256(data: BytesLike, bytes: number): string {
+  return sha256(data).slice(2, 2 + bytes * 2);
+}
+
+function isHex(value: unknown, bytes?: number): value is string {
+  return typeof value === "string" && value.length % 2 === 0 && /^[0-9a-f]*$/.test(value) &&
+    (bytes === undefined || value.length === bytes * 2);
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
@@ -0,0 +1,221 @@
+/**
+ * Portable group snapshots.
+ *
+ * A snapshot is everything needed to rebuild a group's tree and to know which
+ * on-chain group it is: contract, chain, group ID, tree depth, the ordered
+ * leaves (0 for removed members), the root, and the block it was taken at.
+ * Admins can hand it to members or to another service, and anyone can check
+ * the root against the leaves on import and against `is_valid_root` on-chain.
+ *
+ * `serializeGroupSnapshot` writes canonical JSON: keys sorted, no whitespace,
+ * big numbers as decimal strings, and addresses and chain IDs in one fixed hex
+ * form. The same snapshot always gives the same bytes, so
+ * `hashGroupSnapshot` can be signed and compared.
+ */
+
+import { Group } from "@semaphore-protocol/group";
+import { sha256, toUtf8Bytes } from "ethers";
+import { GroupSnapshotError } from "./errors.js";
+import { MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "./vk.js";
+import { BN254_SCALAR_FIELD, chainIdToFelt } from "./validation.js";
+
+/** Snapshot format version written by this SDK */
+export const GROUP_SNAPSHOT_VERSION = 1;
+
+export interface GroupSnapshot {
+  version: 1;
+  /** Chain ID as a 0x-prefixed hex felt (e.g. SN_SEPOLIA = 0x534e5f5345504f4c4941) */
+  chainId: string;
+  /** Semaphore contract address, 0x + 64 lowercase hex digits */
+  contractAddress: string;
+  /** Group ID, decimal */
+  groupId: string;
+  /** Circuit tree depth the group's deployment verifies */
+  treeDepth: number;
+  /** Block the snapshot reflects */
+  blockNumber: number;
+  /** Identity commitments in leaf order, decimal; "0" where a member was removed */
+  leaves: string[];
+  /** Merkle root of `leaves`, decimal */
+  root: string;
+}
+
+export interface GroupSnapshotOptions {
+  chainId: string | bigint;
+  contractAddress: string | bigint;
+  groupId: bigint | number | string;
+  treeDepth: number;
+  blockNumber: number;
+}
+
+/** One leaf that differs between two snapshots. */
+export interface GroupSnapshotChange {
+  index: number;
+  kind: "added" | "removed" | "updated";
+  /** Leaf in the older snapshot, or null if it had no leaf at this index */
+  before: bigint | null;
+  after: bigint;
+}
+
+export interface GroupSnapshotDiff {
+  fromBlock: number;
+  toBlock: number;
+  fromRoot: bigint;
+  toRoot: bigint;
+  /** Changed leaves, by ascending index */
+  changes: GroupSnapshotChange[];
+}
+
+/**
+ * Take a snapshot of a group.
+ *
+ * @throws GroupSnapshotError if the tree depth cannot hold the group or a field is invalid
+ */
+export function createGroupSnapshot(group: Group, options: GroupSnapshotOptions): GroupSnapshot {
+  return parseGroupSnapshot({
+    version: GROUP_SNAPSHOT_VERSION,
+    chainId: "0x" + chainIdToFelt(options.chainId).toString(16),
+    contractAddress: toAddress(options.contractAddress),
+    groupId: BigInt(options.groupId).toString(),
+    treeDepth: options.treeDepth,
+    blockNumber: options.blockNumber,
+    leaves: group.members.map((leaf) => leaf.toString()),
+    root: group.root.toString(),
+  });
+}
+
+/**
+ * Rebuild the group from a snapshot, checking that its leaves give its root.
+ *
+ * @throws GroupSnapshotError if the snapshot is malformed or the root does not match
+ */
+export function importGroupSnapshot(input: GroupSnapshot | string): { group: Group; snapshot: GroupSnapshot } {
+  const snapshot = parseGroupSnapshot(typeof input === "string" ? parseJson(input) : input);
+  const group = new Group();
+  // Group.addMembers rejects 0, but removed members are 0 leaves: the tree
+  // only depends on its leaves, so insert them directly.
+  if (snapshot.leaves.length > 0) group.leanIMT.insertMany(snapshot.leaves.map(BigInt));
+  if (group.root.toString() !== snapshot.root) {
+    throw new GroupSnapshotError(
+      `Group snapshot root ${snapshot.root} does not match its leaves (computed ${group.root})`,
+    );
+  }
+  return { group, snapshot };
+}
+
+/**
+ * Validate a snapshot's shape. Fields must already be in the canonical form
+ * `createGroupSnapshot` writes. Does not check the root; see `importGroupSnapshot`.
+ *
+ * @throws GroupSnapshotError if a field is missing, malformed or out of range
+ */
+export function parseGroupSnapshot(value: unknown): GroupSnapshot {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new GroupSnapshotError("Group snapshot must be a JSON object");
+  }
+  const s = value as Record<string, unknown>;
+  if (s.version !== GROUP_SNAPSHOT_VERSION) {
+    throw new GroupSnapshotError(`Unsupported group snapshot version ${JSON.stringify(s.version)}: expected ${GROUP_SNAPSHOT_VERSION}`);
+  }
+  const expected = ["blockNumber", "chainId", "contractAddress", "groupId", "leaves", "root", "treeDepth", "version"];
+  const unknown = Object.keys(s).filter((key) => !expected.includes(key));
+  if (unknown.length > 0) throw new GroupSnapshotError(`Unknown group snapshot field(s): ${unknown.join(", ")}`);
+
+  if (typeof s.chainId !== "string" || !/^0x(0|[1-9a-f][0-9a-f]*)$/.test(s.chainId)) {
+    throw new GroupSnapshotError("chainId must be a lowercase 0x-prefixed hex felt without leading zeros");
+  }
+  if (typeof s.contractAddress !== "string" || !/^0x[0-9a-f]{64}$/.test(s.contractAddress)) {
+    throw new GroupSnapshotError("contractAddress must be 0x followed by 64 lowercase hex digits");
+  }
+  if (!isDecimal(s.groupId)) throw new GroupSnapshotError("groupId must be a decimal string");
+  if (!isDecimal(s.root) || BigInt(s.root) >= BN254_SCALAR_FIELD) {
+    throw new GroupSnapshotError("root must be a decimal string in the BN254 scalar field");
+  }
+  if (!Number.isSafeInteger(s.blockNumber) || (s.blockNumber as number) < 0) {
+    throw new GroupSnapshotError("blockNumber must be a non-negative integer");
+  }
+  const depth = s.treeDepth as number;
+  if (!Number.isInteger(depth) || depth < MIN_TREE_DEPTH || depth > MAX_TREE_DEPTH) {
+    throw new GroupSnapshotError(`treeDepth must be an integer in ${MIN_TREE_DEPTH}–${MAX_TREE_DEPTH}`);
+  }
+  if (!Array.isArray(s.leaves)) throw new GroupSnapshotError("leaves must be an array of decimal strings");
+  const bad = s.leaves.findIndex((leaf) => !isDecimal(leaf) || BigInt(leaf) >= BN254_SCALAR_FIELD);
+  if (bad !== -1) {
+    throw new GroupSnapshotError(`leaves[${bad}] must be a decimal string in the BN254 scalar field`);
+  }
+  if (s.leaves.length > 2 ** depth) {
+    throw new GroupSnapshotError(`${s.leaves.length} leaves do not fit a tree of depth ${depth}`);
+  }
+  return s as unknown as GroupSnapshot;
+}
+
+/** Canonical JSON of a snapshot: sorted keys, no whitespace. */
+export function serializeGroupSnapshot(snapshot: GroupSnapshot): string {
+  const s = parseGroupSnapshot(snapshot);
+  const sorted = Object.fromEntries(Object.entries(s).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  return JSON.stringify(sorted);
+}
+
+/** SHA-256 of the canonical JSON, 0x-prefixed. Sign this to vouch for a snapshot. */
+export function hashGroupSnapshot(snapshot: GroupSnapshot): string {
+  return sha256(toUtf8Bytes(serializeGroupSnapshot(snapshot)));
+}
+
+/**
+ * Leaves that changed from an older snapshot to a newer one of the same group.
+ * New indexes are "added" (with leaf 0 if the member was removed again before
+ * `to`), zeroed leaves "removed", and any other change "updated".
+ *
+ * @throws GroupSnapshotError if the snapshots are of different groups, or
+ *   `to` is older or has fewer leaves than `from`
+ */
+export function diffGroupSnapshots(from: GroupSnapshot, to: GroupSnapshot): GroupSnapshotDiff {
+  parseGroupSnapshot(from);
+  parseGroupSnapshot(to);
+  for (const field of ["chainId", "contractAddress", "groupId"] as const) {
+    if (from[field] !== to[field]) {
+      throw new GroupSnapshotError(`Snapshots are of different groups: ${field} ${from[field]} vs ${to[field]}`);
+    }
+  }
+  if (to.blockNumber < from.blockNumber || to.leaves.length < from.leaves.length) {
+    throw new GroupSnapshotError(
+      `Snapshot at block ${to.blockNumber} (${to.leaves.length} leaves) is not newer than ` +
+      `block ${from.blockNumber} (${from.leaves.length} leaves)`,
+    );
+  }
+
+  const changes: GroupSnapshotChange[] = [];
+  for (let index = 0; index < to.leaves.length; index++) {
+    const after = BigInt(to.leaves[index]);
+    if (index >= from.leaves.length) {
+      changes.push({ index, kind: "added", before: null, after });
+      continue;
+    }
+    const before = BigInt(from.leaves[index]);
+    if (before === after) continue;
+    changes.push({ index, kind: after === 0n ? "removed" : "updated", before, after });
+  }
+  return {
+    fromBlock: from.blockNumber,
+    toBlock: to.blockNumber,
+    fromRoot: BigInt(from.root),
+    toRoot: BigInt(to.root),
+    changes,
+  };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new GroupSnapshotError("Group snapshot is not valid JSON", { cause: err });
+  }
+}
+
+function isDecimal(value: unknown): value is string {
+  return typeof value === "string" && /^(0|[1-9][0-9]*)$/.test(value);
+}
+
+function toAddress(value: string | bigint): string {
+  return "0x" + BigInt(value).toString(16).padStart(64, "0");
+}
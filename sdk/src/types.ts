@@ -14,3 +14,18 @@ export interface SemaphoreFullProof {
   scope: string;
   points: string[];
 }
+
+/** A step of proof generation, reported through `onProgress`. */
+export type ProofProgress =
+  /** Circuit artifact transfer; `total` is null when the size is unknown */
+  | { phase: "download"; file: string; loaded: number; total: number | null }
+  | { phase: "witness" }
+  | { phase: "proving" }
+  /** Garaga encoding, once per backend tried */
+  | { phase: "encoding"; backend: string };
+
+export interface ProgressOptions {
+  onProgress?: (progress: ProofProgress) => void;
+  /** Stops the work: pending downloads, proving and encoding reject with `signal.reason` */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,203 @@
+/**
+ * Field-range and curve-point validation.
+ *
+ * Values cross three number systems on their way to the contract:
+ * - BN254 scalar field (r): identity commitments, Merkle roots, nullifiers,
+ *   the circuit's public inputs
+ * - u256: the contract's `group_id`, roots, commitments and nullifiers, and
+ *   the message and scope the SDK hashes (`hashForCircuit` hashes 32 bytes)
+ * - felt252 (< 2^251 + 17·2^192 + 1): calldata and addresses
+ *
+ * A value outside its range fails late and obscurely: in the Poseidon tree,
+ * deep inside Garaga encoding, or as a revert. These checks run at the SDK
+ * boundary instead, and throw `InvalidFieldElementError` /
+ * `InvalidCurvePointError` naming the field.
+ *
+ * Proof points are checked against the BN254 curve equations, y² = x³ + 3 on
+ * G1 and y² = x³ + 3/(9 + i) on the G2 twist over Fp2, before Garaga
+ * encoding. Subgroup membership is left to the verifier.
+ */
+
+import { shortString } from "starknet";
+import type { SemaphoreFullProof } from "./types.js";
+import { MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "./vk.js";
+import { InvalidCurvePointError, InvalidFieldElementError, UnsupportedTreeDepthError } from "./errors.js";
+
+/** Order of the BN254 scalar field (r) */
+export const BN254_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/** Order of the BN254 base field (p), in which curve point coordinates live */
+export const BN254_BASE_FIELD = 21888242871839275222246405745257275088696311157297823662689037894645226208583n;
+
+/** The StarkNet field prime, 2^251 + 17·2^192 + 1 */
+export const FELT252_PRIME = (1n << 251n) + 17n * (1n << 192n) + 1n;
+
+/** Largest u256 value */
+export const U256_MAX = (1n << 256n) - 1n;
+
+/**
+ * Check that a value is an element of the BN254 scalar field (0 ≤ v < r).
+ *
+ * @returns The value as a bigint
+ * @throws InvalidFieldElementError naming `field`
+ */
+export function assertScalarField(value: unknown, field: string): bigint {
+  return checkRange(value, field, BN254_SCALAR_FIELD, "the BN254 scalar field");
+}
+
+/**
+ * Check that a value fits a u256 (0 ≤ v < 2^256).
+ *
+ * @returns The value as a bigint
+ * @throws InvalidFieldElementError naming `field`
+ */
+export function assertU256(value: unknown, field: string): bigint {
+  return checkRange(value, field, U256_MAX + 1n, "a u256");
+}
+
+/**
+ * Check that a value is a felt252 (0 ≤ v < 2^251 + 17·2^192 + 1).
+ *
+ * @returns The value as a bigint
+ * @throws InvalidFieldElementError naming `field`
+ */
+export function assertFelt252(value: unknown, field: string): bigint {
+  return checkRange(value, field, FELT252_PRIME, "a felt252");
+}
+
+/**
+ * Read a chain ID given either as a hex felt or as a short string like
+ * "SN_SEPOLIA". The result is not range-checked; pass it to `assertFelt252`.
+ */
+export function chainIdToFelt(value: string | bigint): bigint {
+  return typeof value === "bigint" || /^0x[0-9a-f]+$/i.test(value)
+    ? BigInt(value)
+    : BigInt(shortString.encodeShortString(value));
+}
+
+/**
+ * Check that (x, y) is a point of BN254 G1 other than the point at infinity.
+ *
+ * @throws InvalidFieldElementError if a coordinate is not in the base field
+ * @throws InvalidCurvePointError if the point is not on the curve
+ */
+export function assertG1Point(x: unknown, y: unknown, field: string): void {
+  const px = checkRange(x, `${field}.x`, BN254_BASE_FIELD, "the BN254 base field");
+  const py = checkRange(y, `${field}.y`, BN254_BASE_FIELD, "the BN254 base field");
+  if (px === 0n && py === 0n) throw new InvalidCurvePointError(field, "is the point at infinity");
+  if (mod(py * py - px * px * px - 3n) !== 0n) {
+    throw new InvalidCurvePointError(field, "is not on the BN254 G1 curve y² = x³ + 3");
+  }
+}
+
+/**
+ * Check that (x, y), with coordinates in Fp2 given as [c0, c1]
+ * (c0 + c1·i), is a point of the BN254 G2 twist other than the point at
+ * infinity.
+ *
+ * @throws InvalidFieldElementError if a coordinate is not in the base field
+ * @throws InvalidCurvePointError if the point is not on the twist
+ */
+export function assertG2Point(x: readonly [unknown, unknown], y: readonly [unknown, unknown], field: string): void {
+  const px: Fp2 = [
+    checkRange(x[0], `${field}.x.c0`, BN254_BASE_FIELD, "the BN254 base field"),
+    checkRange(x[1], `${field}.x.c1`, BN254_BASE_FIELD, "the BN254 base field"),
+  ];
+  const py: Fp2 = [
+    checkRange(y[0], `${field}.y.c0`, BN254_BASE_FIELD, "the BN254 base field"),
+    checkRange(y[1], `${field}.y.c1`, BN254_BASE_FIELD, "the BN254 base field"),
+  ];
+  if (px.every((c) => c === 0n) && py.every((c) => c === 0n)) {
+    throw new InvalidCurvePointError(field, "is the point at infinity");
+  }
+  const lhs = fp2Mul(py, py);
+  const rhs = fp2Add(fp2Mul(fp2Mul(px, px), px), TWIST_B);
+  if (lhs[0] !== rhs[0] || lhs[1] !== rhs[1]) {
+    throw new InvalidCurvePointError(field, "is not on the BN254 G2 twist y² = x³ + 3/(9 + i)");
+  }
+}
+
+/**
+ * Check the 8 packed proof points of a `SemaphoreFullProof`: A (G1), B (G2,
+ * packed with each coordinate as [c1, c0]) and C (G1).
+ *
+ * @throws InvalidFieldElementError / InvalidCurvePointError naming the point
+ */
+export function assertProofPoints(points: readonly unknown[], field = "points"): void {
+  if (!Array.isArray(points) || points.length !== 8) {
+    throw new InvalidFieldElementError(field, points, "must be an array of 8 coordinates");
+  }
+  assertG1Point(points[0], points[1], `${field} A`);
+  assertG2Point([points[3], points[2]], [points[5], points[4]], `${field} B`);
+  assertG1Point(points[6], points[7], `${field} C`);
+}
+
+/**
+ * Check every field of a proof: the tree depth, the root and nullifier in
+ * the scalar field, message and scope as u256, and the proof points on the
+ * curve. Run before Garaga encoding, which is slow and fails obscurely.
+ *
+ * @throws UnsupportedTreeDepthError if the depth is out of range
+ * @throws InvalidFieldElementError / InvalidCurvePointError naming the field
+ */
+export function assertValidProof(proof: SemaphoreFullProof): void {
+  const depth = proof.merkleTreeDepth;
+  if (!Number.isInteger(depth) || depth < MIN_TREE_DEPTH || depth > MAX_TREE_DEPTH) {
+    throw new UnsupportedTreeDepthError(
+      `Proof tree depth ${depth} is not supported: expected ${MIN_TREE_DEPTH}–${MAX_TREE_DEPTH}`,
+    );
+  }
+  assertScalarField(proof.merkleTreeRoot, "merkleTreeRoot");
+  assertScalarField(proof.nullifier, "nullifier");
+  assertU256(proof.message, "message");
+  assertU256(proof.scope, "scope");
+  assertProofPoints(proof.points);
+}
+
+// ── Internals ──────────────────────────────────────────────────────────────
+
+type Fp2 = [bigint, bigint];
+
+function mod(a: bigint): bigint {
+  const r = a % BN254_BASE_FIELD;
+  return r < 0n ? r + BN254_BASE_FIELD : r;
+}
+
+function fp2Add(a: Fp2, b: Fp2): Fp2 {
+  return [mod(a[0] + b[0]), mod(a[1] + b[1])];
+}
+
+/** (a0 + a1·i)(b0 + b1·i) with i² = -1 */
+function fp2Mul(a: Fp2, b: Fp2): Fp2 {
+  return [mod(a[0] * b[0] - a[1] * b[1]), mod(a[0] * b[1] + a[1] * b[0])];
+}
+
+function modInverse(a: bigint): bigint {
+  // Fermat: a^(p-2) mod p
+  let result = 1n;
+  let base = mod(a);
+  for (let e = BN254_BASE_FIELD - 2n; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * base) % BN254_BASE_FIELD;
+    base = (base * base) % BN254_BASE_FIELD;
+  }
+  return result;
+}
+
+/** 3/(9 + i) = 3(9 - i)/82 */
+const TWIST_B: Fp2 = (() => {
+  const scale = 3n * modInverse(82n);
+  return [mod(9n * scale), mod(-scale)];
+})();
+
+function checkRange(value: unknown, field: string, limit: bigint, range: string): bigint {
+  let v: bigint;
+  try {
+    if (typeof value !== "bigint" && typeof value !== "number" && typeof value !== "string") throw new TypeError();
+    if (typeof value === "string" && value.trim() === "") throw new TypeError();
+    v = BigInt(value);
+  } catch {
+    throw new InvalidFieldElementError(field, value, "is not an integer");
+  }
+  if (v < 0n || v >= limit) throw new InvalidFieldElementError(field, value, `is not in ${range}`);
+  return v;
+}
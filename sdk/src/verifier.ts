@@ -0,0 +1,159 @@
+/**
+ * Direct dry-run of the Garaga verifier.
+ *
+ * `send_signal` passes its calldata unchanged to the verifier's
+ * `verify_groth16_proof_bn254(full_proof_with_hints: Span<felt252>)`, which
+ * returns `Result<Span<u256>, felt252>`: Ok with the public inputs
+ * [root, nullifier, hash(message), hash(scope)], or Err with a short-string
+ * reason. The contract only reports the Err as 'Invalid proof'.
+ *
+ * `dryRunVerifier` makes that view call itself, so an integrator can see
+ * the verifier's own verdict, and check the inputs it returns against the
+ * off-chain proof, before the calldata goes to `send_signal`. It needs no
+ * account and costs nothing.
+ */
+
+import { CallData, RpcError, shortString, type BlockIdentifier, type ProviderInterface } from "starknet";
+import type { SemaphoreFullProof } from "./types.js";
+import type { SignalPublicInputs } from "./client.js";
+import type { CalldataMismatch } from "./decoder.js";
+import { hashForCircuit } from "./calldata.js";
+import { toSemaphoreError, VerifierRejectedError } from "./errors.js";
+import { assertFelt252, assertValidProof } from "./validation.js";
+
+export interface VerifierDryRunOptions {
+  /** Address of the Garaga verifier (e.g. `SemaphoreDeployment.verifierAddress`) */
+  verifierAddress: string;
+  /** The proof the calldata was encoded from, to compare the verified inputs with */
+  proof?: SemaphoreFullProof;
+  /** Block to call on (default: the provider's default, usually latest) */
+  blockIdentifier?: BlockIdentifier;
+}
+
+/** Outcome of `dryRunVerifier`. */
+export type VerifierDryRun =
+  | {
+      verified: true;
+      publicInputs: SignalPublicInputs;
+      /** Public inputs that differ from `options.proof` (empty if they match or no proof was given) */
+      mismatches: CalldataMismatch[];
+    }
+  | { verified: false; error: VerifierRejectedError };
+
+/**
+ * Call `verify_groth16_proof_bn254` on a Garaga verifier with Garaga
+ * calldata (as from `encodeForStarknet`), without sending a transaction.
+ *
+ * A rejection is returned, not thrown: `error.panicked` tells an Err result
+ * (the proof does not verify) from a panic (usually calldata the verifier
+ * cannot parse, e.g. encoded for another Garaga version or VK).
+ *
+ * @throws InvalidFieldElementError if a calldata entry is not a felt252
+ * @throws if the call fails for any other reason (unknown address, network)
+ *
+ * @example
+ * const calldata = await encodeForStarknet(proof, vk);
+ * const run = await dryRunVerifier(provider, calldata, { verifierAddress, proof });
+ * if (!run.verified) throw run.error;
+ * if (run.mismatches.length > 0) console.log("Calldata encodes another proof", run.mismatches);
+ */
+export async function dryRunVerifier(
+  provider: ProviderInterface,
+  calldata: string[],
+  options: VerifierDryRunOptions,
+): Promise<VerifierDryRun> {
+  calldata.forEach((felt, i) => assertFelt252(felt, `calldata[${i}]`));
+  if (options.proof) assertValidProof(options.proof);
+
+  let result: string[];
+  try {
+    result = await provider.callContract(
+      {
+        contractAddress: options.verifierAddress,
+        entrypoint: "verify_groth16_proof_bn254",
+        calldata: CallData.compile({ full_proof_with_hints: calldata }),
+      },
+      options.blockIdentifier,
+    );
+  } catch (err) {
+    if (err instanceof RpcError && err.isType("CONTRACT_ERROR")) {
+      return { verified: false, error: new VerifierRejectedError(panicReason(err.message), true, { cause: err }) };
+    }
+    throw toSemaphoreError(err);
+  }
+
+  const decoded = decodeVerifierResult(result.map(BigInt));
+  if (!decoded) {
+    const reason = `Unexpected verifier result [${result.join(", ")}]`;
+    return { verified: false, error: new VerifierRejectedError(reason, false) };
+  }
+  if (!decoded.ok) {
+    return { verified: false, error: new VerifierRejectedError(feltToText(decoded.error), false) };
+  }
+  const publicInputs = toSignalPublicInputs(decoded.inputs);
+  if (!publicInputs) {
+    const reason = `Not enough public inputs: got ${decoded.inputs.length}, send_signal needs 4`;
+    return { verified: false, error: new VerifierRejectedError(reason, false) };
+  }
+  return {
+    verified: true,
+    publicInputs,
+    mismatches: options.proof ? comparePublicInputs(publicInputs, options.proof) : [],
+  };
+}
+
+/**
+ * Decode the verifier's `Result<Span<u256>, felt252>`: [0, length, low,
+ * high, ...] is Ok, [1, error] is Err.
+ *
+ * @internal
+ * @returns null if the result is neither
+ */
+export function decodeVerifierResult(
+  result: bigint[],
+): { ok: true; inputs: bigint[] } | { ok: false; error: bigint } | null {
+  if (result[0] === 1n && result.length === 2) return { ok: false, error: result[1] };
+  if (result[0] !== 0n || result.length < 2) return null;
+  const length = Number(result[1]);
+  if (result.length !== 2 + 2 * length) return null;
+  const inputs = Array.from({ length }, (_, i) => result[2 + 2 * i] + (result[3 + 2 * i] << 128n));
+  return { ok: true, inputs };
+}
+
+/**
+ * The first four verified inputs, as `send_signal` reads them.
+ *
+ * @internal
+ * @returns null if there are fewer than four
+ */
+export function toSignalPublicInputs(inputs: bigint[]): SignalPublicInputs | null {
+  if (inputs.length < 4) return null;
+  const [merkleTreeRoot, nullifier, message, scope] = inputs;
+  return { merkleTreeRoot, nullifier, message, scope };
+}
+
+/** Field names match `compareCalldataToProof`. */
+function comparePublicInputs(inputs: SignalPublicInputs, proof: SemaphoreFullProof): CalldataMismatch[] {
+  const expected: Array<[string, bigint, bigint]> = [
+    ["merkleTreeRoot", BigInt(proof.merkleTreeRoot), inputs.merkleTreeRoot],
+    ["nullifier", BigInt(proof.nullifier), inputs.nullifier],
+    ["hashedMessage", BigInt(hashForCircuit(proof.message)), inputs.message],
+    ["hashedScope", BigInt(hashForCircuit(proof.scope)), inputs.scope],
+  ];
+  return expected
+    .filter(([, want, got]) => want !== got)
+    .map(([field, want, got]) => ({ field, expected: want, actual: got }));
+}
+
+/** starknet.js renders a panic as `0x… ('reason')`; keep the last reason, or the whole message. */
+function panicReason(message: string): string {
+  const reasons = [...message.matchAll(/\('([^']*)'\)/g)];
+  return reasons.length > 0 ? reasons[reasons.length - 1][1] : message;
+}
+
+/** An Err felt as its short string, or as hex if it is not printable text. */
+function feltToText(felt: bigint): string {
+  const hex = "0x" + felt.toString(16);
+  const text = felt === 0n ? "" : shortString.decodeShortString(hex);
+  return /^[\x20-\x7e]+$/.test(text) ? text : hex;
+}
@@ -0,0 +1,146 @@
+/**
+ * Verification-key registry.
+ *
+ * The SDK ships one snarkjs-format Groth16 VK per Semaphore tree depth in
+ * `artifacts/semaphore-<depth>-vk.json` (generated by scripts/extract-vk.ts).
+ * Keys are read relative to this module, so the registry works from `src/`,
+ * from `dist/` and from an installed copy of the package.
+ *
+ * Environments without a filesystem (browser bundles) can supply keys with
+ * `registerVerificationKey` instead.
+ */
+
+import { readFileSync, existsSync } from "fs";
+import { fileURLToPath } from "url";
+import { InvalidVerificationKeyError, UnsupportedTreeDepthError } from "./errors.js";
+
+/** Smallest tree depth with a Semaphore V4 circuit */
+export const MIN_TREE_DEPTH = 1;
+
+/** Largest tree depth with a Semaphore V4 circuit */
+export const MAX_TREE_DEPTH = 32;
+
+/** Number of public inputs of the Semaphore circuit (root, nullifier, message, scope) */
+export const SEMAPHORE_N_PUBLIC = 4;
+
+type G1 = [string, string, string];
+type G2 = [[string, string], [string, string], [string, string]];
+
+/** snarkjs-format Groth16 verification key for one tree depth. */
+export interface VerificationKey {
+  protocol: "groth16";
+  curve: "bn128";
+  nPublic: number;
+  vk_alpha_1: G1;
+  vk_beta_2: G2;
+  vk_gamma_2: G2;
+  vk_delta_2: G2;
+  /** nPublic + 1 G1 points */
+  IC: G1[];
+}
+
+const registry = new Map<number, VerificationKey>();
+
+/**
+ * Get the verification key for a tree depth.
+ *
+ * @throws UnsupportedTreeDepthError if the depth is outside 1–32 or its artifact is missing
+ * @throws InvalidVerificationKeyError if the artifact does not have the expected shape
+ */
+export function getVerificationKey(depth: number): VerificationKey {
+  const cached = registry.get(depth);
+  if (cached) return cached;
+
+  if (!Number.isInteger(depth) || depth < MIN_TREE_DEPTH || depth > MAX_TREE_DEPTH) {
+    throw new UnsupportedTreeDepthError(
+      `No verification key for tree depth ${depth}: supported depths are ${MIN_TREE_DEPTH}–${MAX_TREE_DEPTH}`,
+    );
+  }
+
+  const path = fileURLToPath(new URL(`../artifacts/semaphore-${depth}-vk.json`, import.meta.url));
+  if (!existsSync(path)) {
+    throw new UnsupportedTreeDepthError(
+      `Verification key for tree depth ${depth} is not bundled (expected ${path}). ` +
+      `Run scripts/extract-vk.ts or register it with registerVerificationKey().`,
+    );
+  }
+
+  const vk = validateVerificationKey(JSON.parse(readFileSync(path, "utf-8")), depth);
+  registry.set(depth, vk);
+  return vk;
+}
+
+/**
+ * Register (or override) the verification key for a depth.
+ * The key is validated before it is stored.
+ */
+export function registerVerificationKey(depth: number, vk: unknown): VerificationKey {
+  const validated = validateVerificationKey(vk, depth);
+  registry.set(depth, validated);
+  return validated;
+}
+
+/** Whether a verification key is available for a depth. */
+export function hasVerificationKey(depth: number): boolean {
+  try {
+    getVerificationKey(depth);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a value has the shape of a Semaphore Groth16 VK:
+ * protocol groth16, curve bn128, nPublic = 4, IC length = nPublic + 1,
+ * and every coordinate a decimal field-element string.
+ *
+ * @param depth - Only used to make error messages more precise
+ * @throws InvalidVerificationKeyError naming the first offending field
+ */
+export function validateVerificationKey(vk: unknown, depth?: number): VerificationKey {
+  const where = depth === undefined ? "verification key" : `verification key for depth ${depth}`;
+  const fail = (detail: string): never => {
+    throw new InvalidVerificationKeyError(`Invalid ${where}: ${detail}`);
+  };
+
+  if (typeof vk !== "object" || vk === null) fail("not an object");
+  const v = vk as Record<string, unknown>;
+
+  if (v.protocol !== "groth16") fail(`protocol is ${JSON.stringify(v.protocol)}, expected "groth16"`);
+  if (v.curve !== "bn128") fail(`curve is ${JSON.stringify(v.curve)}, expected "bn128"`);
+  if (v.nPublic !== SEMAPHORE_N_PUBLIC) fail(`nPublic is ${v.nPublic}, expected ${SEMAPHORE_N_PUBLIC}`);
+
+  checkG1(v.vk_alpha_1, "vk_alpha_1", fail);
+  checkG2(v.vk_beta_2, "vk_beta_2", fail);
+  checkG2(v.vk_gamma_2, "vk_gamma_2", fail);
+  checkG2(v.vk_delta_2, "vk_delta_2", fail);
+
+  if (!Array.isArray(v.IC)) fail("IC is not an array");
+  const ic = v.IC as unknown[];
+  if (ic.length !== SEMAPHORE_N_PUBLIC + 1) {
+    fail(`IC has ${ic.length} points, expected nPublic + 1 = ${SEMAPHORE_N_PUBLIC + 1}`);
+  }
+  ic.forEach((point, i) => checkG1(point, `IC[${i}]`, fail));
+
+  return vk as VerificationKey;
+}
+
+function checkG1(point: unknown, name: string, fail: (detail: string) => never): void {
+  if (!Array.isArray(point) || point.length !== 3) fail(`${name} is not a G1 point [x, y, z]`);
+  (point as unknown[]).forEach((c, i) => checkCoordinate(c, `${name}[${i}]`, fail));
+}
+
+function checkG2(point: unknown, name: string, fail: (detail: string) => never): void {
+  if (!Array.isArray(point) || point.length !== 3) fail(`${name} is not a G2 point [x, y, z]`);
+  (point as unknown[]).forEach((pair, i) => {
+    if (!Array.isArray(pair) || pair.length !== 2) fail(`${name}[${i}] is not an Fp2 pair`);
+    (pair as unknown[]).forEach((c, j) => checkCoordinate(c, `${name}[${i}][${j}]`, fail));
+  });
+}
+
+function checkCoordinate(value: unknown, name: string, fail: (detail: string) => never): void {
+  if (typeof value !== "string" || !/^[0-9]+$/.test(value)) {
+    fail(`${name} is not a decimal string: ${JSON.stringify(value)}`);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CircuitArtifactCache,
+  SNARK_ARTIFACTS_VERSION,
+  artifactFileName,
+  getDefaultArtifactCache,
+  loadArtifactManifest,
+  type ArtifactManifest,
+} from "../src/artifacts.js";
+import { MIN_TREE_DEPTH, MAX_TREE_DEPTH } from "../src/vk.js";
+import { ArtifactIntegrityError } from "../src/errors.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "artifacts-"));
+  await writeFile(join(dir, "semaphore-1.wasm"), "wasm bytes");
+  await writeFile(join(dir, "semaphore-1.zkey"), "zkey bytes");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+function cache(artifacts: Record<string, string>): CircuitArtifactCache {
+  const manifest: ArtifactManifest = { version: 1, artifactsVersion: SNARK_ARTIFACTS_VERSION, artifacts };
+  return new CircuitArtifactCache({ source: dir, cacheDir: join(dir, "cache"), manifest });
+}
+
+describe("bundled manifest", () => {
+  it("pins the wasm and zkey of every depth of the release", () => {
+    const manifest = loadArtifactManifest();
+    assert.equal(manifest.artifactsVersion, SNARK_ARTIFACTS_VERSION);
+    for (let depth = MIN_TREE_DEPTH; depth <= MAX_TREE_DEPTH; depth++) {
+      for (const kind of ["wasm", "zkey"] as const) {
+        assert.match(manifest.artifacts[artifactFileName(depth, kind)] ?? "", /^[0-9a-f]{64}$/, `depth ${depth} ${kind}`);
+      }
+    }
+  });
+
+  it("is what the default cache checks against", () => {
+    assert.deepEqual(getDefaultArtifactCache().manifest, loadArtifactManifest());
+  });
+});
+
+describe("CircuitArtifactCache", () => {
+  it("returns files whose hashes match", async () => {
+    const paths = await cache({
+      "semaphore-1.wasm": sha256("wasm bytes"),
+      "semaphore-1.zkey": sha256("zkey bytes"),
+    }).get(1);
+    assert.equal(paths.wasm, join(dir, "cache", "semaphore-1.wasm"));
+  });
+
+  it("rejects a file whose hash does not match", async () => {
+    const err = await cache({
+      "semaphore-1.wasm": sha256("wasm bytes"),
+      "semaphore-1.zkey": sha256("other zkey"),
+    }).get(1).catch((e) => e);
+    assert.ok(err instanceof ArtifactIntegrityError);
+    assert.equal(err.file, "semaphore-1.zkey");
+  });
+
+  it("rejects unpinned files unless allowed", async () => {
+    await assert.rejects(cache({}).get(1), ArtifactIntegrityError);
+  });
+
+  it("keeps a shared transfer going until every caller has aborted", async () => {
+    const pinned = cache({ "semaphore-1.wasm": sha256("wasm bytes"), "semaphore-1.zkey": sha256("zkey bytes") });
+    const first = new AbortController();
+    const second = new AbortController();
+    const aborted = pinned.get(1, { signal: first.signal });
+    const kept = pinned.get(1);
+    const alsoAborted = pinned.get(1, { signal: second.signal });
+    first.abort();
+    second.abort();
+    await assert.rejects(aborted, { name: "AbortError" });
+    await assert.rejects(alsoAborted, { name: "AbortError" });
+    assert.equal((await kept).zkey, join(dir, "cache", "semaphore-1.zkey"));
+
+    const last = new AbortController();
+    const fresh = cache({ "semaphore-1.wasm": sha256("wasm bytes"), "semaphore-1.zkey": sha256("zkey bytes") });
+    const stopped = fresh.get(1, { signal: last.signal });
+    last.abort();
+    await assert.rejects(stopped, { name: "AbortError" });
+    assert.equal((await fresh.get(1)).wasm, join(dir, "cache", "semaphore-1.wasm"));
+  });
+});
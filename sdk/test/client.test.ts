@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Account, RpcProvider, shortString, type Call } from "starknet";
+import { SemaphoreClient } from "../src/client.js";
+import {
+  ConfigurationError,
+  GroupNotFoundError,
+  InvalidFieldElementError,
+  MerkleRootMismatchError,
+  NullifierAlreadyUsedError,
+} from "../src/errors.js";
+
+const ADDRESS = "0x5e3a";
+const provider = new RpcProvider({ nodeUrl: "http://127.0.0.1:1" });
+
+/** An Account whose network calls are replaced by `stubs`; every call it would send is recorded. */
+function stubbedAccount(stubs: Partial<Record<"execute" | "simulateTransaction" | "waitForTransaction", (...args: any[]) => any>>) {
+  const account = new Account({ provider, address: "0x1", signer: "0x1234" });
+  const sent: Call[] = [];
+  Object.assign(account, {
+    execute: async (calls: Call | Call[]) => {
+      sent.push(...[calls].flat());
+      return stubs.execute?.(calls) ?? { transaction_hash: "0xabc" };
+    },
+    simulateTransaction: async (invocations: Call[]) => {
+      sent.push(...invocations);
+      return stubs.simulateTransaction!(invocations);
+    },
+    waitForTransaction: async () => stubs.waitForTransaction?.() ?? { isReverted: () => false },
+  });
+  return { client: new SemaphoreClient({ address: ADDRESS, providerOrAccount: account }), sent };
+}
+
+const felts = (call: Call) => (call.calldata as string[]).map(BigInt);
+
+describe("SemaphoreClient", () => {
+  it("encodes u256 arguments as low/high and spans with their length", async () => {
+    const { client, sent } = stubbedAccount({});
+    await client.addMember((1n << 128n) + 2n, 3n, 4n);
+    await client.sendSignal(1n, ["0x5", "0x6"]);
+
+    assert.equal(sent[0].entrypoint, "add_member");
+    assert.deepEqual(felts(sent[0]), [2n, 1n, 3n, 0n, 4n, 0n]);
+    assert.equal(sent[1].entrypoint, "send_signal");
+    assert.deepEqual(felts(sent[1]), [1n, 0n, 2n, 5n, 6n]);
+  });
+
+  it("rejects out-of-range arguments before sending", async () => {
+    const { client, sent } = stubbedAccount({});
+    await assert.rejects(client.addMember(1n, -1n, 4n), InvalidFieldElementError);
+    assert.equal(sent.length, 0);
+  });
+
+  it("throws the typed error of a reverted transaction", async () => {
+    const { client } = stubbedAccount({
+      waitForTransaction: () => ({ isReverted: () => true, value: { revert_reason: "Failure reason: 'Group does not exist'." } }),
+    });
+    await assert.rejects(client.createGroup(1n), GroupNotFoundError);
+  });
+});
+
+describe("preflightSendSignal", () => {
+  it("reports a reverted simulation as a typed error", async () => {
+    const { client, sent } = stubbedAccount({
+      simulateTransaction: () => [{
+        transaction_trace: { execute_invocation: { revert_reason: "Error in the called contract: 'Nullifier already used'" } },
+        overall_fee: "0x10",
+        unit: "FRI",
+      }],
+    });
+    const verdict = await client.preflightSendSignal(1n, ["0x5"]);
+    assert.equal(verdict.ok, false);
+    assert.ok(verdict.error instanceof NullifierAlreadyUsedError);
+    assert.equal(verdict.publicInputs, null);
+    assert.deepEqual(felts(sent[0]), [1n, 0n, 1n, 5n]);
+  });
+
+  it("decodes a revert the node raises instead of returning a trace", async () => {
+    const panic = shortString.encodeShortString("Merkle root mismatch");
+    const { client } = stubbedAccount({
+      simulateTransaction: () => { throw new Error(`RPC: simulate failed with ${panic}`); },
+    });
+    const verdict = await client.preflightSendSignal(1n, ["0x5"]);
+    assert.ok(verdict.error instanceof MerkleRootMismatchError);
+  });
+
+  it("needs an Account", async () => {
+    const client = new SemaphoreClient({ address: ADDRESS, providerOrAccount: provider });
+    await assert.rejects(client.preflightSendSignal(1n, ["0x5"]), ConfigurationError);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decodeCalldata, compareCalldataToProof, assertCalldataMatchesProof } from "../src/decoder.js";
+import { CalldataError } from "../src/errors.js";
+import { calldata, proof, publicSignals, snarkjsProof } from "./fixtures.js";
+
+const big = (values: string[]) => values.map(BigInt);
+
+describe("decodeCalldata", () => {
+  const decoded = decodeCalldata(calldata);
+
+  it("reads the points and public inputs of the depth-20 example", () => {
+    assert.equal(decoded.length, 1977);
+    assert.deepEqual([decoded.a.x, decoded.a.y], big(snarkjsProof.pi_a.slice(0, 2)));
+    assert.deepEqual([...decoded.b.x, ...decoded.b.y], big([...snarkjsProof.pi_b[0], ...snarkjsProof.pi_b[1]]));
+    assert.deepEqual([decoded.c.x, decoded.c.y], big(snarkjsProof.pi_c.slice(0, 2)));
+    assert.deepEqual(decoded.publicInputs, big(publicSignals));
+  });
+
+  it("lays the sections out back to back", () => {
+    const last = decoded.sections[decoded.sections.length - 1];
+    assert.equal(last.name, "msm_hint");
+    assert.equal(last.offset + last.length, decoded.length);
+  });
+
+  it("accepts a span length prefix", () => {
+    assert.deepEqual(decodeCalldata([String(calldata.length), ...calldata]).publicInputs, decoded.publicInputs);
+  });
+
+  it("rejects truncated calldata and trailing felts", () => {
+    assert.throws(() => decodeCalldata(calldata.slice(0, 100)), (err) => err instanceof CalldataError && /truncated/.test(err.message));
+    assert.throws(() => decodeCalldata([...calldata, "0"]), /1 trailing felts/);
+  });
+});
+
+describe("compareCalldataToProof", () => {
+  it("names the fields that differ from the proof", () => {
+    // The example's message and scope are already hashed, so those two always differ.
+    const altered = { ...proof, nullifier: "1" };
+    assert.deepEqual(
+      compareCalldataToProof(decodeCalldata(calldata), altered).map((m) => m.field),
+      ["nullifier", "hashedMessage", "hashedScope"],
+    );
+    assert.throws(() => assertCalldataMatchesProof(calldata, altered), /nullifier \(expected 1, got /);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Group } from "@semaphore-protocol/group";
+import { SemaphoreRouter } from "../src/deployments.js";
+import { resolveTreeDepth } from "../src/proof.js";
+import { DEFAULT_TREE_DEPTH } from "../src/group.js";
+import { UnsupportedTreeDepthError } from "../src/errors.js";
+import type { SemaphoreFullProof } from "../src/types.js";
+
+const router = new SemaphoreRouter({
+  providerOrAccount: {} as any,
+  deployments: [
+    { treeDepth: 10, address: "0x10" },
+    { treeDepth: 20, address: "0x20" },
+  ],
+});
+
+describe("resolveTreeDepth", () => {
+  it("defaults to the reference deployment's depth, whatever the group's size", () => {
+    assert.equal(resolveTreeDepth(new Group([1n])), DEFAULT_TREE_DEPTH);
+    assert.equal(resolveTreeDepth(new Group([1n, 2n, 3n])), DEFAULT_TREE_DEPTH);
+  });
+
+  it("rejects a depth too small for the group", () => {
+    assert.throws(() => resolveTreeDepth(new Group([1n, 2n, 3n]), 1), UnsupportedTreeDepthError);
+  });
+});
+
+describe("SemaphoreRouter", () => {
+  it("selects the smallest registered depth for a size", () => {
+    assert.equal(router.selectDepth(500), 10);
+    assert.equal(router.selectDepth(5000), 20);
+    assert.throws(() => router.selectDepth(2 ** 21), UnsupportedTreeDepthError);
+  });
+
+  it("rejects a proof made for another depth than the group's deployment", async () => {
+    const proof = { merkleTreeDepth: 10 } as SemaphoreFullProof;
+    await assert.rejects(router.sendSignal(20, 1n, proof), /lives on the depth-20 deployment/);
+  });
+
+  it("rejects a depth without a deployment", async () => {
+    const proof = { merkleTreeDepth: 16 } as SemaphoreFullProof;
+    await assert.rejects(router.sendSignal(16, 1n, proof), UnsupportedTreeDepthError);
+  });
+});
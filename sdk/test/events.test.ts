@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ProviderInterface } from "starknet";
+import { fetchSemaphoreEvents, getEventSelector, type RawSemaphoreEvent, type SemaphoreEventName } from "../src/events.js";
+import { EventDecodingError } from "../src/errors.js";
+
+function raw(name: SemaphoreEventName, groupId: number, eventIndex?: number): RawSemaphoreEvent {
+  return {
+    keys: [getEventSelector(name), `0x${groupId.toString(16)}`, "0x0"],
+    data: ["0x1", "0x0", "0x0", "0x0", "0x2", "0x0"],
+    block_number: 7,
+    transaction_hash: "0xabc",
+    event_index: eventIndex,
+  };
+}
+
+/** A node that applies the keys filter, optionally without reporting event_index. */
+function provider(events: RawSemaphoreEvent[], withIndex: boolean): ProviderInterface {
+  return {
+    getEvents: async ({ keys }: { keys?: string[][] }) => ({
+      events: events
+        .filter((e) => !keys || keys.every((allowed, i) => allowed.includes(e.keys[i])))
+        .map((e) => (withIndex ? e : { ...e, event_index: undefined })),
+    }),
+  } as unknown as ProviderInterface;
+}
+
+describe("fetchSemaphoreEvents", () => {
+  const tx = [raw("MemberAdded", 1, 0), raw("SignalProcessed", 2, 1), raw("MemberAdded", 1, 2), raw("MemberAdded", 2, 3)];
+  const options = { address: "0x1", groupId: 1n, names: ["MemberAdded"] as const };
+
+  it("takes event indexes from the node when it reports them", async () => {
+    const events = await fetchSemaphoreEvents(provider(tx, true), options);
+    assert.deepEqual(events.map((e) => e.eventIndex), [0, 2]);
+  });
+
+  it("counts fallback indexes over every event of the contract, not just the filtered ones", async () => {
+    const events = await fetchSemaphoreEvents(provider(tx, false), options);
+    assert.deepEqual(events.map((e) => [e.name, e.groupId, e.eventIndex]), [["MemberAdded", 1n, 0], ["MemberAdded", 1n, 2]]);
+  });
+
+  it("rejects an event too short for its layout", async () => {
+    const short = { ...raw("MemberAdded", 1, 0), data: ["0x1"] };
+    await assert.rejects(fetchSemaphoreEvents(provider([short], true), options), EventDecodingError);
+  });
+});
@@ -0,0 +1,39 @@
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import type { SemaphoreFullProof } from "../src/types.js";
+import type { SnarkArtifactPaths } from "../src/artifacts.js";
+
+/** Parse a JSON file from sdk/artifacts. */
+export function readArtifact(name: string): any {
+  return JSON.parse(readFileSync(fileURLToPath(new URL(`../artifacts/${name}`, import.meta.url)), "utf-8"));
+}
+
+/** snarkjs proof, public signals and Garaga calldata of the bundled depth-20 example. */
+export const snarkjsProof = readArtifact("proof.json");
+export const publicSignals: string[] = readArtifact("public.json");
+export const calldata: string[] = readArtifact("calldata.json");
+
+/**
+ * The example as a SemaphoreFullProof. Its message and scope are the public
+ * signals, which the circuit saw already hashed, so they do not hash to them.
+ */
+export const proof: SemaphoreFullProof = {
+  merkleTreeDepth: 20,
+  merkleTreeRoot: publicSignals[0],
+  nullifier: publicSignals[1],
+  message: publicSignals[2],
+  scope: publicSignals[3],
+  points: [
+    snarkjsProof.pi_a[0], snarkjsProof.pi_a[1],
+    snarkjsProof.pi_b[0][1], snarkjsProof.pi_b[0][0], snarkjsProof.pi_b[1][1], snarkjsProof.pi_b[1][0],
+    snarkjsProof.pi_c[0], snarkjsProof.pi_c[1],
+  ],
+};
+
+/** Circuit files of the pinned release, from the @zk-kit/semaphore-artifacts dev dependency. */
+export function circuitArtifacts(depth: number): SnarkArtifactPaths {
+  const dir = dirname(createRequire(import.meta.url).resolve("@zk-kit/semaphore-artifacts/package.json"));
+  return { wasm: join(dir, `semaphore-${depth}.wasm`), zkey: join(dir, `semaphore-${depth}.zkey`) };
+}
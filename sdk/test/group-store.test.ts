@@ -0,0 +1,105 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { appendFile, mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Group } from "@semaphore-protocol/group";
+import { GroupStore, AppendLogGroupBackend, JsonFileGroupBackend } from "../src/group-store.js";
+import { GroupStoreError } from "../src/errors.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "group-store-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("GroupStore", () => {
+  it("keeps the same root as a Group built from scratch", async () => {
+    const store = await GroupStore.open();
+    for (const commitment of [11n, 22n, 33n, 44n, 55n]) await store.add(commitment);
+    await store.remove(22n);
+    const group = new Group([11n, 22n, 33n, 44n, 55n]);
+    group.removeMember(1);
+    assert.equal(store.root, group.root);
+    assert.equal(store.indexOf(33n), 2);
+    assert.equal(store.indexOf(22n), -1);
+  });
+
+  it("previews the root of every add and remove", async () => {
+    const store = await GroupStore.open();
+    for (let i = 1n; i <= 33n; i++) {
+      const preview = store.previewAdd(i * 7n);
+      assert.equal(await store.add(i * 7n), preview, `add #${i}`);
+      const index = Number(i) - 1;
+      if (index % 3 === 1) {
+        const removePreview = store.previewRemove(index);
+        assert.equal(await store.remove(index), removePreview, `remove #${index}`);
+      }
+    }
+  });
+
+  it("rejects duplicate and unknown members", async () => {
+    const store = await GroupStore.open();
+    await store.add(1n);
+    await assert.rejects(store.add(1n), GroupStoreError);
+    await assert.rejects(store.remove(2n), GroupStoreError);
+  });
+
+  it("leaves the store unchanged when beforeCommit throws", async () => {
+    const store = await GroupStore.open();
+    await store.add(1n);
+    const root = store.root;
+    await assert.rejects(store.add(2n, { beforeCommit: () => { throw new Error("tx failed"); } }), /tx failed/);
+    assert.equal(store.root, root);
+    assert.equal(store.has(2n), false);
+  });
+
+  it("reopens a JSON file store", async () => {
+    const path = join(dir, "group.json");
+    const store = await GroupStore.open(new JsonFileGroupBackend(path));
+    await store.add(1n);
+    await store.add(2n);
+    const reopened = await GroupStore.open(new JsonFileGroupBackend(path));
+    assert.equal(reopened.root, store.root);
+  });
+});
+
+describe("AppendLogGroupBackend", () => {
+  it("replays changes after the last checkpoint", async () => {
+    const path = join(dir, "group.log");
+    const store = await GroupStore.open(new AppendLogGroupBackend(path, { checkpointEvery: 2 }));
+    for (const commitment of [1n, 2n, 3n]) await store.add(commitment);
+    await store.remove(0);
+    const reopened = await GroupStore.open(new AppendLogGroupBackend(path, { checkpointEvery: 2 }));
+    assert.equal(reopened.root, store.root);
+    assert.deepEqual(reopened.members, [0n, 2n, 3n]);
+  });
+
+  it("recovers from a torn last line", async () => {
+    const path = join(dir, "group.log");
+    const store = await GroupStore.open(new AppendLogGroupBackend(path));
+    await store.add(1n);
+    await store.add(2n);
+    // A crash mid-append leaves half a line behind.
+    await appendFile(path, `{"op":"add","commit`);
+
+    const reopened = await GroupStore.open(new AppendLogGroupBackend(path));
+    assert.deepEqual(reopened.members, [1n, 2n]);
+    await reopened.add(3n);
+    assert.ok((await readFile(path, "utf-8")).endsWith(`{"op":"add","commitment":"3"}\n`));
+
+    const again = await GroupStore.open(new AppendLogGroupBackend(path));
+    assert.deepEqual(again.members, [1n, 2n, 3n]);
+    assert.equal(again.root, new Group([1n, 2n, 3n]).root);
+  });
+
+  it("rejects a corrupt complete line", async () => {
+    const path = join(dir, "group.log");
+    await appendFile(path, `{"op":"add","commitment":"1"}\nnot json\n`);
+    await assert.rejects(GroupStore.open(new AppendLogGroupBackend(path)), /line 2 is not valid JSON/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Signer, type Signature, type TypedData } from "starknet";
+import { deriveIdentityFromAccount, identityFromSignature, identityTypedData } from "../src/identity.js";
+import { IdentityDerivationError } from "../src/errors.js";
+
+const context = { app: "anonymous-voting", groupId: 1n, chainId: "SN_SEPOLIA" };
+const account = { address: "0x123", signer: new Signer("0x1234") };
+
+describe("identityFromSignature", () => {
+  it("gives a fixed identity for a fixed account, message and signature", () => {
+    const identity = identityFromSignature(identityTypedData(context), "0x123", ["0x1", "0x2"]);
+    assert.equal(identity.commitment, 14323532345796933239667409861658550484955926410555899046095889414624404894876n);
+  });
+
+  it("gives another identity for other typed data", () => {
+    const commitment = (data: TypedData) => identityFromSignature(data, "0x123", ["0x1", "0x2"]).commitment;
+    const base = commitment(identityTypedData(context));
+    for (const change of [{ app: "other-app" }, { groupId: 2n }, { chainId: "SN_MAIN" }]) {
+      assert.notEqual(commitment(identityTypedData({ ...context, ...change })), base, Object.keys(change)[0]);
+    }
+  });
+
+  it("rejects an empty signature", () => {
+    assert.throws(() => identityFromSignature(identityTypedData(context), "0x123", []), IdentityDerivationError);
+  });
+});
+
+describe("deriveIdentityFromAccount", () => {
+  it("derives the same identity from a deterministic signer", async () => {
+    const identity = await deriveIdentityFromAccount(account, { ...context, checkDeterministic: true });
+    assert.equal(identity.commitment, 8356374066779796655945818889183336645097992078524689215244716065729663719194n);
+    assert.equal((await deriveIdentityFromAccount(account, context)).commitment, identity.commitment);
+  });
+
+  it("rejects a signer that signs differently each time when checkDeterministic is set", async () => {
+    let nonce = 0n;
+    const flaky = { address: "0x123", signMessage: async (): Promise<Signature> => ["0x1", `0x${(++nonce).toString(16)}`] };
+    const options = { ...context, checkDeterministic: true };
+    await assert.rejects(deriveIdentityFromAccount(flaky, options), /two different signatures/);
+    await assert.doesNotReject(deriveIdentityFromAccount(flaky, context));
+  });
+
+  it("needs a chain ID when the signer cannot report one", async () => {
+    const withoutChain = { app: context.app, groupId: context.groupId };
+    await assert.rejects(deriveIdentityFromAccount(account, withoutChain), IdentityDerivationError);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Identity } from "@semaphore-protocol/identity";
+import {
+  encryptIdentity,
+  decryptIdentity,
+  exportIdentity,
+  importIdentity,
+  IdentityKeystore,
+  type ExportIdentityOptions,
+} from "../src/keystore.js";
+import { KeystoreError, KeystorePasswordError } from "../src/errors.js";
+
+const identity = new Identity("keystore-test-secret");
+// The cheapest parameters the keystore accepts, to keep the suite fast.
+const fast: ExportIdentityOptions = { scrypt: { n: 1 << 14 } };
+
+describe("identity keystore", () => {
+  it("round-trips an identity with scrypt and PBKDF2", async () => {
+    for (const options of [fast, { kdf: "pbkdf2", pbkdf2Iterations: 100_000 } as const]) {
+      const json = await exportIdentity(identity, "correct horse", { ...options, group: 42n });
+      const restored = await importIdentity(json, "correct horse");
+      assert.equal(restored.commitment, identity.commitment);
+    }
+  });
+
+  it("rejects a wrong password", async () => {
+    const json = await exportIdentity(identity, "correct horse", fast);
+    await assert.rejects(importIdentity(json, "wrong horse"), KeystorePasswordError);
+  });
+
+  it("rejects edited metadata, even with the right password", async () => {
+    const entry = await encryptIdentity(identity, "pw", { ...fast, group: "1", label: "alice" });
+    const other = new Identity("someone else").commitment.toString();
+    for (const edit of [{ commitment: other }, { group: "2" }, { label: "bob" }, { id: crypto.randomUUID() }]) {
+      await assert.rejects(decryptIdentity({ ...entry, ...edit }, "pw"), KeystorePasswordError);
+    }
+  });
+
+  it("rejects a malformed document", async () => {
+    await assert.rejects(importIdentity("{}", "pw"), (err) => err instanceof KeystoreError && !(err instanceof KeystorePasswordError));
+  });
+
+  it("keeps one identity per group and serializes them together", async () => {
+    const keystore = new IdentityKeystore();
+    await keystore.add(1n, identity, "pw", fast);
+    await keystore.add(2n, new Identity("second"), "other", fast);
+    const parsed = IdentityKeystore.parse(keystore.serialize());
+    assert.deepEqual(parsed.groups, ["1", "2"]);
+    assert.equal((await parsed.unlock(1n, "pw")).commitment, identity.commitment);
+    await assert.rejects(parsed.unlock(3n, "pw"), /No identity stored for group 3/);
+  });
+});
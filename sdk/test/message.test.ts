@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeBytes32String, getBytes, toBigInt } from "ethers";
+import {
+  uintMessage,
+  textMessage,
+  bytesMessage,
+  addressMessage,
+  enumMessage,
+  MessageDictionary,
+} from "../src/message.js";
+import { hashForCircuit } from "../src/calldata.js";
+import { MessageEncodingError } from "../src/errors.js";
+import type { SignalProcessedEvent } from "../src/events.js";
+
+describe("message codecs", () => {
+  it("round-trip their values", () => {
+    assert.equal(uintMessage.decode(uintMessage.encode(123n)), 123n);
+    assert.equal(textMessage.decode(textMessage.encode("hello")), "hello");
+    assert.deepEqual(bytesMessage(4).decode(bytesMessage(4).encode(getBytes("0x00ff0102"))), Uint8Array.from([0, 255, 1, 2]));
+    assert.equal(addressMessage.decode(addressMessage.encode("0xABC")), "0x" + "0".repeat(61) + "abc");
+    const vote = enumMessage(["no", "yes"]);
+    assert.equal(vote.encode("yes"), 1n);
+    assert.equal(vote.decode(0n), "no");
+  });
+
+  it("encode text as a bytes32 string", () => {
+    assert.equal(textMessage.encode("hello"), toBigInt(encodeBytes32String("hello")));
+  });
+
+  it("reject values out of range", () => {
+    assert.throws(() => uintMessage.encode(1n << 256n), MessageEncodingError);
+    assert.throws(() => textMessage.encode("x".repeat(32)), /at most 31 UTF-8 bytes/);
+    for (const numeric of ["42", "0x2a"]) assert.throws(() => textMessage.encode(numeric), /reads as a number/);
+    assert.throws(() => bytesMessage(4).encode(getBytes("0x00ff01")), /must be 4 bytes, got 3/);
+    assert.throws(() => bytesMessage(2).decode(1n << 16n), /does not fit in 2 bytes/);
+    assert.throws(() => addressMessage.encode("0x8" + "0".repeat(62)), /out of range/);
+    assert.throws(() => enumMessage(["a"]).decode(1n), /not an enum option index/);
+    assert.throws(() => enumMessage(["a", "a"]), RangeError);
+  });
+});
+
+describe("MessageDictionary", () => {
+  const votes = new MessageDictionary(["no", "yes"], enumMessage(["no", "yes"]));
+  const signal = (message: bigint) => ({ message } as SignalProcessedEvent);
+
+  it("maps message hashes back to options", () => {
+    const hash = BigInt(hashForCircuit(1n));
+    assert.equal(votes.hash("yes"), hash);
+    assert.deepEqual(votes.decode(hash), { known: true, option: "yes", message: 1n, hash });
+    assert.deepEqual(votes.decode(5n), { known: false, hash: 5n });
+  });
+
+  it("tallies signals per option", () => {
+    const { counts, unknown } = votes.tally([signal(votes.hash("yes")), signal(votes.hash("yes")), signal(7n)]);
+    assert.deepEqual([...counts], [["no", 0], ["yes", 2]]);
+    assert.equal(unknown.length, 1);
+  });
+
+  it("rejects options outside the dictionary", () => {
+    const text = new MessageDictionary(["a", "b"], textMessage);
+    assert.throws(() => text.message("c"), /not in the message dictionary/);
+  });
+});
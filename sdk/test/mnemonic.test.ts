@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Identity } from "@semaphore-protocol/identity";
+import {
+  identityToMnemonic,
+  identityFromMnemonic,
+  deriveIdentityFromMnemonic,
+  generateMnemonic,
+  isValidMnemonic,
+} from "../src/mnemonic.js";
+import { MnemonicError } from "../src/errors.js";
+
+// BIP-39 English test vectors: 32 bytes of 0x7f, and 16 zero bytes
+const LEGAL_WINNER = "legal winner thank year wave sausage worth useful ".repeat(2) + "legal winner thank year wave sausage worth title";
+const ABANDON = "abandon ".repeat(11) + "about";
+
+describe("identity mnemonics", () => {
+  it("write a private key as its BIP-39 words and read it back", () => {
+    const identity = new Identity(new Uint8Array(32).fill(0x7f));
+    assert.equal(identityToMnemonic(identity), LEGAL_WINNER);
+    assert.equal(identityFromMnemonic(`  ${LEGAL_WINNER.toUpperCase()} `).commitment, identity.commitment);
+
+    const random = new Identity();
+    assert.equal(identityFromMnemonic(identityToMnemonic(random)).commitment, random.commitment);
+  });
+
+  it("refuse identities with a text private key, and seed mnemonics", () => {
+    assert.throws(() => identityToMnemonic(new Identity("my secret")), MnemonicError);
+    assert.throws(() => identityFromMnemonic(ABANDON), /has 24 words, got 12/);
+  });
+});
+
+describe("deriveIdentityFromMnemonic", () => {
+  it("derives fixed identities per index and passphrase", () => {
+    assert.equal(deriveIdentityFromMnemonic(ABANDON).commitment, 20291817689517178894890189795313320767522111777195504966775490328072154309970n);
+    assert.equal(deriveIdentityFromMnemonic(ABANDON, 1).commitment, 1811889280494530268097845606393690740488203087193214402839940055005504054267n);
+    assert.equal(deriveIdentityFromMnemonic(ABANDON, 0, "TREZOR").commitment, 21822991572380141160310535662561102215014585350264611729493634329479504495002n);
+    assert.throws(() => deriveIdentityFromMnemonic(ABANDON, -1), MnemonicError);
+  });
+});
+
+describe("mnemonic validation", () => {
+  it("rejects unknown words and bad checksums", () => {
+    const unknownWord = ABANDON.replace("about", "aboot");
+    const badChecksum = ABANDON.replace("about", "abandon");
+    for (const phrase of [unknownWord, badChecksum]) {
+      assert.equal(isValidMnemonic(phrase), false);
+      assert.throws(() => deriveIdentityFromMnemonic(phrase), MnemonicError);
+    }
+    assert.throws(() => identityFromMnemonic(LEGAL_WINNER.replace("title", "zebra")), /Invalid mnemonic/);
+  });
+
+  it("accepts generated mnemonics", () => {
+    assert.equal(generateMnemonic(12).split(" ").length, 12);
+    assert.ok(isValidMnemonic(generateMnemonic()));
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Identity } from "@semaphore-protocol/identity";
+import type { ProviderInterface } from "starknet";
+import { computeNullifier, checkNullifier } from "../src/nullifier.js";
+import { ConfigurationError } from "../src/errors.js";
+
+describe("computeNullifier", () => {
+  it("matches the nullifier of a proof by @semaphore-protocol/proof", () => {
+    // generateProof(new Identity("nullifier known answer"), group, 1n, 42n, 1, depth-1 artifacts).nullifier
+    const expected = 14448159599011163284210970000389604948939786300200830700845942717768680147356n;
+    assert.equal(computeNullifier(new Identity("nullifier known answer"), 42n), expected);
+    assert.notEqual(computeNullifier(new Identity("nullifier known answer"), 43n), expected);
+  });
+});
+
+describe("checkNullifier", () => {
+  const calls: string[] = [];
+  const provider = {
+    callContract: async () => {
+      calls.push("is_nullifier_used");
+      return ["0x1"];
+    },
+    getEvents: async () => {
+      calls.push("getEvents");
+      return { events: [] };
+    },
+  } as unknown as ProviderInterface;
+
+  it("only asks the contract unless events are requested", async () => {
+    const status = await checkNullifier(provider, 5n, { address: "0x1" });
+    assert.deepEqual(status, { nullifier: 5n, used: true, usedOnChain: true, signal: null });
+    assert.deepEqual(calls, ["is_nullifier_used"]);
+  });
+
+  it("needs a first block to scan events", async () => {
+    await assert.rejects(checkNullifier(provider, 5n, { address: "0x1", events: true }), ConfigurationError);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createProofBundle,
+  parseProofBundle,
+  serializeProofBundle,
+  encodeProofBundle,
+  decodeProofBundle,
+} from "../src/proof-bundle.js";
+import { FELT252_PRIME } from "../src/validation.js";
+import { ProofBundleError } from "../src/errors.js";
+import { proof } from "./fixtures.js";
+
+const bundle = createProofBundle(proof, { chainId: "SN_SEPOLIA", contractAddress: "0x123", groupId: 42 });
+
+describe("proof bundles", () => {
+  it("normalizes the chain ID and address", () => {
+    assert.equal(bundle.chainId, "0x534e5f5345504f4c4941");
+    assert.equal(bundle.contractAddress, "0x" + "0".repeat(61) + "123");
+    assert.equal(bundle.groupId, "42");
+  });
+
+  it("round-trips through JSON and the compact form", () => {
+    assert.deepEqual(parseProofBundle(serializeProofBundle(bundle)), bundle);
+    assert.deepEqual(decodeProofBundle(encodeProofBundle(bundle)), bundle);
+  });
+
+  it("rejects a chain ID or address that is not a felt252", () => {
+    const tooBig = FELT252_PRIME.toString(16);
+    assert.throws(
+      () => parseProofBundle({ ...bundle, chainId: "0x" + tooBig }),
+      (err) => err instanceof ProofBundleError && /chainId is not in a felt252/.test(err.message),
+    );
+    assert.throws(() => parseProofBundle({ ...bundle, contractAddress: "0x" + tooBig.padStart(64, "0") }), /contractAddress is not in a felt252/);
+  });
+
+  it("rejects malformed options when creating a bundle", () => {
+    const options = { chainId: "SN_SEPOLIA", contractAddress: "0x123", groupId: 42 };
+    assert.throws(() => createProofBundle(proof, { ...options, contractAddress: "0xzz" }), /contractAddress must be an integer/);
+    assert.throws(() => createProofBundle(proof, { ...options, groupId: "forty-two" }), ProofBundleError);
+    assert.throws(() => createProofBundle(proof, { ...options, chainId: "x".repeat(32) }), /chainId must be a hex felt/);
+  });
+
+  it("keeps the compact form of a depth-20 proof under 600 characters", () => {
+    assert.ok(encodeProofBundle(bundle).length < 600);
+  });
+
+  it("rejects unknown fields and points off the curve", () => {
+    assert.throws(() => parseProofBundle({ ...bundle, extra: 1 }), /Unknown bundle field\(s\): extra/);
+    const points = [...bundle.proof.points];
+    points[0] = "1";
+    assert.throws(() => parseProofBundle({ ...bundle, proof: { ...bundle.proof, points } }), ProofBundleError);
+  });
+
+  it("rejects a compact bundle with trailing bytes", () => {
+    assert.throws(() => decodeProofBundle(encodeProofBundle(bundle) + "AA"), ProofBundleError);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { Identity } from "@semaphore-protocol/identity";
+import { Group } from "@semaphore-protocol/group";
+import { ProverPool } from "../src/prover-pool.js";
+import { generateSemaphoreProof, verifySemaphoreProof } from "../src/proof.js";
+import { NotAMemberError, ProverJobError } from "../src/errors.js";
+import { circuitArtifacts } from "./fixtures.js";
+
+const identity = new Identity("prover-pool test");
+const group = new Group([identity.commitment, 1n]);
+const artifacts = circuitArtifacts(1);
+const job = { treeDepth: 1 };
+
+describe("ProverPool", () => {
+  const pool = new ProverPool({ concurrency: 1, artifacts });
+  after(async () => {
+    await pool.terminate();
+    // generateSemaphoreProof's snarkjs curve keeps its threads until terminated
+    await (globalThis as any).curve_bn128?.terminate();
+  });
+
+  it("returns the proof generateSemaphoreProof gives, with timing", async () => {
+    const { proof, timing } = await pool.prove(identity, group, 1n, 2n, job);
+    const { points, ...publicInputs } = await generateSemaphoreProof(identity, group, 1n, 2n, { ...job, artifacts });
+    assert.deepEqual({ ...proof, points }, { ...publicInputs, points });
+    assert.ok(await verifySemaphoreProof(proof));
+
+    for (const ms of Object.values(timing)) assert.ok(Number.isFinite(ms) && ms >= 0);
+    assert.ok(timing.totalMs >= timing.loadMs + timing.provingMs);
+  });
+
+  it("queues jobs beyond its concurrency", async () => {
+    const first = pool.prove(identity, group, 1n, 2n, job);
+    const second = pool.prove(identity, group, 3n, 2n, job);
+    assert.deepEqual([pool.running, pool.pending], [1, 1]);
+
+    const [a, b] = await Promise.all([first, second]);
+    assert.equal(a.workerId, b.workerId);
+    assert.ok(b.timing.queuedMs > a.timing.provingMs / 2, "waited for the first job");
+    assert.equal(b.proof.message, "3");
+  });
+
+  it("rejects an identity outside the group before queueing", async () => {
+    await assert.rejects(pool.prove(new Identity("outsider"), group, 1n, 2n, job), NotAMemberError);
+    assert.equal(pool.pending, 0);
+  });
+
+  it("drops an aborted queued job and stops an aborted running job", async () => {
+    const running = new AbortController();
+    const queued = new AbortController();
+    const first = pool.prove(identity, group, 1n, 2n, { ...job, signal: running.signal });
+    const second = pool.prove(identity, group, 1n, 2n, { ...job, signal: queued.signal });
+    const third = pool.prove(identity, group, 1n, 2n, job);
+
+    queued.abort();
+    await assert.rejects(second, { name: "AbortError" });
+    assert.equal(pool.pending, 1);
+
+    running.abort();
+    await assert.rejects(first, { name: "AbortError" });
+    const { workerId } = await third;
+    assert.notEqual(workerId, 0, "the stopped worker is replaced");
+  });
+
+  it("rejects queued and running jobs when terminated", async () => {
+    const other = new ProverPool({ concurrency: 1, artifacts });
+    const jobs = [other.prove(identity, group, 1n, 2n, job), other.prove(identity, group, 1n, 2n, job)];
+    const rejected = Promise.all(jobs.map((result) => assert.rejects(result, ProverJobError)));
+    await other.terminate();
+    await rejected;
+    await assert.rejects(other.prove(identity, group, 1n, 2n, job), /has been terminated/);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Group } from "@semaphore-protocol/group";
+import { replayGroupHistory, type MembershipEvent } from "../src/rebuild.js";
+
+const location = (i: number) => ({ blockNumber: i + 1, transactionHash: "0x" + (i + 1).toString(16), eventIndex: 0 });
+
+/** MemberAdded events with the roots a real group would emit. */
+function added(commitments: bigint[]): MembershipEvent[] {
+  const group = new Group();
+  return commitments.map((commitment, i) => {
+    group.addMember(commitment);
+    return {
+      name: "MemberAdded",
+      groupId: 1n,
+      identityCommitment: commitment,
+      index: BigInt(i),
+      merkleRoot: group.root,
+      ...location(i),
+    };
+  });
+}
+
+describe("replayGroupHistory", () => {
+  it("rebuilds the group the events describe", () => {
+    const events = added([11n, 22n, 33n]);
+    const expected = new Group([11n, 22n, 33n]);
+    expected.removeMember(1);
+    events.push({ name: "MemberRemoved", groupId: 1n, identityCommitment: 22n, merkleRoot: expected.root, ...location(3) });
+
+    const result = replayGroupHistory(events);
+    assert.ok(result.ok);
+    assert.equal(result.eventsApplied, 4);
+    assert.equal(result.group.root, expected.root);
+  });
+
+  it("counts the offending event as applied on a root mismatch", () => {
+    const events = added([11n, 22n, 33n]);
+    events[1] = { ...events[1], merkleRoot: 1n };
+
+    const result = replayGroupHistory(events);
+    assert.ok(!result.ok);
+    assert.equal(result.divergence.reason, "root-mismatch");
+    assert.equal(result.divergence.step, 1);
+    assert.equal(result.eventsApplied, 2);
+    assert.equal(result.group.size, result.eventsApplied);
+    assert.equal(result.group.root, result.divergence.localRoot);
+  });
+
+  it("stops before a removal of an unknown member", () => {
+    const events = added([11n]);
+    events.push({ name: "MemberRemoved", groupId: 1n, identityCommitment: 99n, merkleRoot: 0n, ...location(1) });
+
+    const result = replayGroupHistory(events);
+    assert.ok(!result.ok);
+    assert.equal(result.divergence.reason, "unknown-member");
+    assert.equal(result.eventsApplied, 1);
+    assert.deepEqual(result.group.members, [11n]);
+  });
+});
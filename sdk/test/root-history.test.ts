@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Group } from "@semaphore-protocol/group";
+import { RootHistoryTracker } from "../src/root-history.js";
+import { getEventSelector } from "../src/events.js";
+
+const GROUP_ID = 7n;
+const split = (v: bigint) => ["0x" + (v & ((1n << 128n) - 1n)).toString(16), "0x" + (v >> 128n).toString(16)];
+
+/** One MemberAdded event per block, with the roots a real group would have. */
+function chain(commitments: bigint[]) {
+  const group = new Group();
+  return commitments.map((commitment, i) => {
+    group.addMember(commitment);
+    return {
+      keys: [getEventSelector("MemberAdded"), ...split(GROUP_ID)],
+      data: [...split(commitment), ...split(BigInt(i)), ...split(group.root)],
+      block_number: i + 1,
+      transaction_hash: "0x" + (i + 1).toString(16),
+    };
+  });
+}
+
+/** A provider whose calls yield to the event loop, so overlapping syncs interleave. */
+function provider(events: ReturnType<typeof chain>) {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+  return {
+    async getBlockNumber() {
+      await tick();
+      return events.length;
+    },
+    async getEvents(filter: any) {
+      await tick();
+      const from = filter.from_block.block_number;
+      const to = filter.to_block.block_number;
+      return { events: events.filter((e) => e.block_number >= from && e.block_number <= to) };
+    },
+  } as any;
+}
+
+describe("RootHistoryTracker", () => {
+  const commitments = [11n, 22n, 33n, 44n, 55n];
+  const events = chain(commitments);
+
+  it("tracks how many changes each root survives", async () => {
+    const tracker = new RootHistoryTracker(provider(events), { address: "0x1", groupId: GROUP_ID, rootHistorySize: 3 });
+    assert.equal(await tracker.sync(), 5);
+    const roots = events.map((e) => BigInt(e.data[4]) + (BigInt(e.data[5]) << 128n));
+    assert.equal(tracker.status(roots[4]).remainingChanges, 2);
+    assert.equal(tracker.status(roots[2]).remainingChanges, 0);
+    assert.equal(tracker.status(roots[1]).valid, false);
+    assert.deepEqual(tracker.groupAtRoot(roots[2]).members, commitments.slice(0, 3));
+  });
+
+  it("records each event once when syncs overlap", async () => {
+    const tracker = new RootHistoryTracker(provider(events), { address: "0x1", groupId: GROUP_ID });
+    const counts = await Promise.all([tracker.sync(), tracker.sync(), tracker.sync()]);
+    assert.deepEqual(counts, [5, 0, 0]);
+    assert.equal(tracker.changes, 5);
+    assert.equal(tracker.currentRoot, new Group(commitments).root);
+  });
+
+  it("keeps syncing after a failed sync", async () => {
+    const flaky = provider(events);
+    const getEvents = flaky.getEvents;
+    flaky.getEvents = async () => { throw new Error("node down"); };
+    const tracker = new RootHistoryTracker(flaky, { address: "0x1", groupId: GROUP_ID });
+    await assert.rejects(tracker.sync(), /node down/);
+    flaky.getEvents = getEvents;
+    assert.equal(await tracker.sync(), 5);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  deriveScope,
+  epochAt,
+  epochScope,
+  currentEpochScopes,
+  assertProductionScope,
+  type EpochSchedule,
+} from "../src/scope.js";
+import { FELT252_PRIME } from "../src/validation.js";
+import { InvalidFieldElementError, ScopeError } from "../src/errors.js";
+
+const params = { chainId: "SN_SEPOLIA", contractAddress: "0x123", groupId: 1n, domain: "vote-v1" };
+const daily: EpochSchedule = { kind: "time", start: 1_000_000, length: 86_400 };
+
+describe("deriveScope", () => {
+  it("binds every field, and fits a felt252", () => {
+    const scope = deriveScope(params);
+    assert.ok(scope < FELT252_PRIME);
+    assert.equal(deriveScope({ ...params, chainId: "0x534e5f5345504f4c4941" }), scope);
+    for (const change of [{ chainId: "SN_MAIN" }, { contractAddress: "0x124" }, { groupId: 2n }, { domain: "vote-v2" }, { epoch: 0 }]) {
+      assert.notEqual(deriveScope({ ...params, ...change }), scope, Object.keys(change)[0]);
+    }
+  });
+
+  it("rejects values out of range", () => {
+    assert.throws(() => deriveScope({ ...params, contractAddress: FELT252_PRIME }), InvalidFieldElementError);
+    assert.throws(() => deriveScope({ ...params, epoch: -1 }), ScopeError);
+  });
+});
+
+describe("epoch schedules", () => {
+  it("finds the epoch and its bounds", () => {
+    assert.equal(epochAt(daily, daily.start + 86_399), 0n);
+    assert.equal(epochAt(daily, daily.start + 86_400), 1n);
+    assert.throws(() => epochAt(daily, daily.start - 1), /before the epoch schedule starts/);
+
+    const { current, next } = currentEpochScopes(params, daily, daily.start + 2 * 86_400 + 5);
+    assert.deepEqual([current.epoch, current.start, current.end], [2n, daily.start + 2 * 86_400, daily.start + 3 * 86_400]);
+    assert.equal(next.start, current.end);
+    assert.equal(current.scope, deriveScope({ ...params, epoch: 2n }));
+    assert.deepEqual(epochScope(params, daily, 3n), next);
+  });
+
+  it("needs the block number for a block schedule", () => {
+    assert.throws(() => currentEpochScopes(params, { kind: "block", start: 0, length: 100 }), /needs the current block number/);
+  });
+});
+
+describe("assertProductionScope", () => {
+  it("rejects placeholders and scopes for another context", () => {
+    assert.throws(() => assertProductionScope(42n), /looks like a test placeholder/);
+    const scope = deriveScope(params);
+    assert.doesNotThrow(() => assertProductionScope(scope, params));
+    assert.doesNotThrow(() => assertProductionScope(scope, [{ ...params, groupId: 2n }, params]));
+    assert.throws(() => assertProductionScope(scope, { ...params, groupId: 2n }), /is not the scope derived for group 2/);
+  });
+});
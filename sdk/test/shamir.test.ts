@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Identity } from "@semaphore-protocol/identity";
+import { sha256, toUtf8Bytes } from "ethers";
+import {
+  splitIdentity,
+  combineIdentityShares,
+  serializeIdentityShare,
+  parseIdentityShare,
+  type IdentityShare,
+} from "../src/shamir.js";
+import { IdentityShareError } from "../src/errors.js";
+
+const identity = new Identity("shamir-test-secret");
+
+/** A share with its data changed and its checksum recomputed, as a malicious guardian could. */
+function forge(share: IdentityShare): IdentityShare {
+  const data = (parseInt(share.data.slice(0, 2), 16) ^ 1).toString(16).padStart(2, "0") + share.data.slice(2);
+  const fields = ["semaphore-cairo/identity-share/checksum/v1", share.version, share.setId, share.threshold, share.shares, share.index, data];
+  return { ...share, data, checksum: sha256(toUtf8Bytes(fields.join(":"))).slice(2, 10) };
+}
+
+describe("Shamir identity shares", () => {
+  const shares = splitIdentity(identity, { threshold: 3, shares: 5 });
+
+  it("rebuilds the identity from any threshold of shares, in any order", () => {
+    for (const picked of [[0, 1, 2], [4, 2, 0], [1, 3, 4]]) {
+      const recovered = combineIdentityShares(picked.map((i) => shares[i]), { commitment: identity.commitment });
+      assert.equal(recovered.commitment, identity.commitment);
+    }
+  });
+
+  it("round-trips shares through JSON", () => {
+    const json = shares.map(serializeIdentityShare);
+    assert.equal(combineIdentityShares(json.slice(2)).commitment, identity.commitment);
+  });
+
+  it("splits text private keys", () => {
+    const text = new Identity("a text key");
+    const split = splitIdentity(text, { threshold: 2, shares: 3 });
+    assert.equal(combineIdentityShares([split[2], split[0]]).commitment, text.commitment);
+  });
+
+  it("carries nothing derived from the key in a share", () => {
+    assert.deepEqual(Object.keys(shares[0]).sort(), ["checksum", "data", "index", "setId", "shares", "threshold", "version"]);
+  });
+
+  it("rejects too few shares", () => {
+    assert.throws(() => combineIdentityShares([shares[0], shares[0], shares[1]]), /Need 3 distinct shares/);
+  });
+
+  it("rejects a corrupted share by its checksum", () => {
+    const corrupted = { ...shares[1], data: "00" + shares[1].data.slice(2) };
+    assert.throws(() => parseIdentityShare(corrupted), /failed its checksum/);
+  });
+
+  it("rejects shares from different splits", () => {
+    const other = splitIdentity(identity, { threshold: 3, shares: 5 });
+    assert.throws(() => combineIdentityShares([shares[0], shares[1], other[2]]), /different split/);
+  });
+
+  it("catches an altered share through the expected commitment", () => {
+    const altered = [shares[0], shares[1], forge(shares[2])];
+    assert.notEqual(combineIdentityShares(altered).commitment, identity.commitment);
+    assert.throws(
+      () => combineIdentityShares(altered, { commitment: identity.commitment }),
+      (err) => err instanceof IdentityShareError && /not \d+; one of them was altered/.test(err.message),
+    );
+  });
+
+  it("catches an altered share through the shares beyond the threshold", () => {
+    assert.throws(
+      () => combineIdentityShares([shares[0], shares[1], shares[2], forge(shares[3])]),
+      /Share 4 disagrees with shares 1, 2, 3/,
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Group } from "@semaphore-protocol/group";
+import {
+  createGroupSnapshot,
+  importGroupSnapshot,
+  serializeGroupSnapshot,
+  hashGroupSnapshot,
+  diffGroupSnapshots,
+} from "../src/snapshot.js";
+import { GroupSnapshotError } from "../src/errors.js";
+
+const options = { chainId: "SN_SEPOLIA", contractAddress: "0xabc", groupId: 7n, treeDepth: 20 };
+
+function snapshot(members: bigint[], blockNumber: number, removed: number[] = []) {
+  const group = new Group(members);
+  for (const index of removed) group.removeMember(index);
+  return createGroupSnapshot(group, { ...options, blockNumber });
+}
+
+describe("group snapshots", () => {
+  const before = snapshot([1n, 2n, 3n], 100);
+  const after = snapshot([1n, 2n, 3n, 4n], 200, [1]);
+
+  it("rebuilds the group, removed members included", () => {
+    const { group } = importGroupSnapshot(serializeGroupSnapshot(after));
+    assert.equal(group.root.toString(), after.root);
+    assert.deepEqual(group.members, [1n, 0n, 3n, 4n]);
+  });
+
+  it("serializes canonically whatever the key order", () => {
+    const reordered = Object.fromEntries(Object.entries(before).reverse()) as typeof before;
+    assert.equal(serializeGroupSnapshot(reordered), serializeGroupSnapshot(before));
+    assert.equal(hashGroupSnapshot(reordered), hashGroupSnapshot(before));
+    assert.ok(serializeGroupSnapshot(before).startsWith(`{"blockNumber":100,"chainId":"0x534e5f5345504f4c4941"`));
+  });
+
+  it("rejects leaves that do not give the root", () => {
+    const tampered = { ...before, leaves: ["1", "2", "5"] };
+    assert.throws(() => importGroupSnapshot(tampered), (err) => err instanceof GroupSnapshotError && /does not match its leaves/.test(err.message));
+  });
+
+  it("rejects malformed fields", () => {
+    assert.throws(() => importGroupSnapshot({ ...before, contractAddress: "0xabc" }), /contractAddress must be 0x followed by 64/);
+    assert.throws(() => importGroupSnapshot({ ...before, treeDepth: 1 }), /3 leaves do not fit a tree of depth 1/);
+  });
+
+  it("lists added, removed and updated leaves", () => {
+    const diff = diffGroupSnapshots(before, after);
+    assert.deepEqual(diff.changes, [
+      { index: 1, kind: "removed", before: 2n, after: 0n },
+      { index: 3, kind: "added", before: null, after: 4n },
+    ]);
+    assert.throws(() => diffGroupSnapshots(after, before), /is not newer than/);
+    assert.throws(() => diffGroupSnapshots(before, { ...after, groupId: "8" }), /different groups: groupId 7 vs 8/);
+  });
+});
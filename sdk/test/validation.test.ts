@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  assertScalarField,
+  assertU256,
+  assertFelt252,
+  assertG1Point,
+  assertProofPoints,
+  assertValidProof,
+  chainIdToFelt,
+  BN254_SCALAR_FIELD,
+  FELT252_PRIME,
+  U256_MAX,
+} from "../src/validation.js";
+import { InvalidCurvePointError, InvalidFieldElementError, UnsupportedTreeDepthError } from "../src/errors.js";
+import { proof } from "./fixtures.js";
+
+describe("range checks", () => {
+  it("accept the largest value of each range and reject the next", () => {
+    const cases = [
+      [assertScalarField, BN254_SCALAR_FIELD],
+      [assertU256, U256_MAX + 1n],
+      [assertFelt252, FELT252_PRIME],
+    ] as const;
+    for (const [check, limit] of cases) {
+      assert.equal(check((limit - 1n).toString(), "v"), limit - 1n);
+      assert.throws(() => check(limit, "v"), InvalidFieldElementError);
+    }
+  });
+
+  it("name the field and reject non-integers", () => {
+    assert.throws(() => assertU256(-1n, "groupId"), /^InvalidFieldElementError: groupId is not in a u256/);
+    for (const value of ["", "abc", 1.5, null, undefined]) {
+      assert.throws(() => assertU256(value, "v"), /v is not an integer/);
+    }
+  });
+});
+
+describe("chainIdToFelt", () => {
+  it("reads hex felts and short strings", () => {
+    assert.equal(chainIdToFelt("SN_SEPOLIA"), 0x534e5f5345504f4c4941n);
+    assert.equal(chainIdToFelt("0x534E5F5345504F4C4941"), 0x534e5f5345504f4c4941n);
+    assert.equal(chainIdToFelt(5n), 5n);
+  });
+});
+
+describe("curve checks", () => {
+  it("accept the example proof", () => {
+    assert.doesNotThrow(() => assertValidProof(proof));
+  });
+
+  it("reject points off the curve and the point at infinity", () => {
+    assert.throws(() => assertG1Point(1n, 3n, "A"), /A is not on the BN254 G1 curve/);
+    assert.throws(() => assertG1Point(0n, 0n, "A"), /A is the point at infinity/);
+
+    const points = [...proof.points];
+    points[2] = "1";
+    assert.throws(() => assertProofPoints(points), (err) => err instanceof InvalidCurvePointError && /points B/.test(err.message));
+  });
+
+  it("reject an unsupported tree depth", () => {
+    assert.throws(() => assertValidProof({ ...proof, merkleTreeDepth: 33 }), UnsupportedTreeDepthError);
+  });
+});